@@ -1,42 +1,438 @@
-import React, { useState, useCallback, useRef } from "react";
-import type { CrosswordResult, WordEntry } from "./engine/types";
-import { generateCrossword } from "./engine/generator";
+import React, { useState, useCallback, useRef, useEffect } from "react";
+import type {
+  ChainwordResult,
+  CrosswordResult,
+  FillwordResult,
+  GenerationOptions,
+  GenerationProgress,
+  PuzzleSettings,
+  RevealedLetters,
+  WordEntry,
+} from "./engine/types";
+import {
+  createGeneratorClient,
+  type GeneratorClient,
+} from "./engine/generatorClient";
+import { randomSeed } from "./engine/random";
+import { DEFAULT_OBJECTIVES } from "./engine/scoring";
+import { DEFAULT_ALPHABET } from "./engine/alphabet";
+import { applyEntries } from "./engine/edit";
 import WordInput from "./components/WordInput";
 import CrosswordGrid from "./components/CrosswordGrid";
 import Toolbar from "./components/Toolbar";
+import GenerationSettings from "./components/GenerationSettings";
+import LayoutGallery from "./components/LayoutGallery";
+import ChainwordView from "./components/ChainwordView";
+import FillwordView from "./components/FillwordView";
+import Library from "./components/Library";
+import {
+  exportChainwordDocx,
+  exportCrosswordDocx,
+  exportFillwordDocx,
+} from "./utils/exportDocx";
+import {
+  clearSession,
+  loadSession,
+  saveSession,
+  type PuzzleSnapshot,
+  type SavedPuzzle,
+  type Session,
+  type WordList,
+} from "./utils/library";
+import { readProject, saveProject } from "./utils/project";
+import { readDocxProject } from "./utils/docxProject";
 import "./App.css";
 
+/** Пауза после последней правки, через которую сеанс сохраняется */
+const AUTOSAVE_DELAY_MS = 1000;
+
+const SESSION_DATE_FORMAT = new Intl.DateTimeFormat("ru-RU", {
+  day: "numeric",
+  month: "long",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
 const App: React.FC = () => {
   const [result, setResult] = useState<CrosswordResult | null>(null);
+  const [layouts, setLayouts] = useState<CrosswordResult[]>([]);
+  const [chain, setChain] = useState<ChainwordResult | null>(null);
+  const [fillword, setFillword] = useState<FillwordResult | null>(null);
   const [filled, setFilled] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [settings, setSettings] = useState<GenerationOptions>({
+    maxAttempts: 80,
+    mode: "greedy",
+    timeBudgetMs: 3000,
+    objectives: DEFAULT_OBJECTIVES,
+    alternatives: 6,
+  });
+  const [puzzle, setPuzzle] = useState<PuzzleSettings>({
+    kind: "free",
+    keyword: "",
+    chainShape: "snake",
+    chainOverlap: 1,
+    fillMode: "straight",
+    fillDirections: ["right", "down"],
+    dense: { width: 9, height: 9, symmetric: true, template: "" },
+    dictionary: null,
+    alphabet: DEFAULT_ALPHABET,
+  });
   const lastEntriesRef = useRef<WordEntry[]>([]);
+  const clientRef = useRef<GeneratorClient | null>(null);
 
-  const handleGenerate = useCallback((entries: WordEntry[]) => {
-    setIsGenerating(true);
-    lastEntriesRef.current = entries;
+  // Остановить фоновую генерацию при размонтировании
+  useEffect(() => () => clientRef.current?.cancel(), []);
 
-    // Таймаут, чтобы UI успел обновиться перед генерацией
-    setTimeout(() => {
-      try {
-        const crossword = generateCrossword(entries, 80);
-        setResult(crossword);
+  // Слова в панели ввода; панель пересоздаётся, когда список загружают извне
+  const [draft, setDraft] = useState<WordEntry[]>([]);
+  const [initialEntries, setInitialEntries] = useState<WordEntry[]>([]);
+  const [inputKey, setInputKey] = useState(0);
+  // Открытый список библиотеки
+  const [listId, setListId] = useState<string | null>(null);
+  // Прошлый сеанс, который предлагается восстановить
+  const [restorable, setRestorable] = useState<Session | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(false);
+
+  useEffect(() => {
+    loadSession()
+      .then((session) => {
+        if (session && (session.entries.length > 0 || session.snapshot)) {
+          setRestorable(session);
+        }
+      })
+      .catch((err) => console.error("Ошибка чтения сеанса:", err))
+      .finally(() => setSessionChecked(true));
+  }, []);
+
+  const handleGenerate = useCallback(
+    async (entries: WordEntry[], seed?: number) => {
+      if (puzzle.kind === "keyword" && !puzzle.keyword.trim()) {
+        alert("Введите ключевое слово в настройках генерации.");
+        return;
+      }
+      setIsGenerating(true);
+      setProgress(null);
+      lastEntriesRef.current = entries;
+
+      // Показать новую головоломку вместо прежней
+      const show = (next: {
+        layouts?: CrosswordResult[];
+        chain?: ChainwordResult;
+        fillword?: FillwordResult;
+      }) => {
+        setLayouts(next.layouts ?? []);
+        setResult(next.layouts?.[0] ?? null);
+        setChain(next.chain ?? null);
+        setFillword(next.fillword ?? null);
         setFilled(true);
+      };
+
+      clientRef.current ??= createGeneratorClient();
+      try {
+        const client = clientRef.current;
+        // null — генерация остановлена пользователем
+        if (puzzle.kind === "chain") {
+          const generated = await client.generateChain(entries, {
+            seed,
+            alphabet: puzzle.alphabet,
+            shape: puzzle.chainShape,
+            maxOverlap: puzzle.chainOverlap,
+          });
+          if (generated) show({ chain: generated });
+          return;
+        }
+        if (puzzle.kind === "fillword") {
+          const generated = await client.generateFillword(entries, {
+            seed,
+            alphabet: puzzle.alphabet,
+            mode: puzzle.fillMode,
+            directions: puzzle.fillDirections,
+          });
+          if (generated) show({ fillword: generated });
+          return;
+        }
+        if (puzzle.kind === "dense") {
+          const generated = await client.generateDense(
+            entries,
+            puzzle.dictionary?.words ?? [],
+            { ...puzzle.dense, seed, alphabet: puzzle.alphabet },
+          );
+          if (generated) show({ layouts: [generated] });
+          return;
+        }
+        if (puzzle.kind === "scanword") {
+          const generated = await client.generateScanword(entries, {
+            seed,
+            alphabet: puzzle.alphabet,
+            maxAttempts: settings.maxAttempts,
+          });
+          if (generated) show({ layouts: [generated] });
+          return;
+        }
+        const results =
+          puzzle.kind === "keyword"
+            ? await client
+                .generateKeyword(puzzle.keyword, entries, {
+                  seed,
+                  alphabet: puzzle.alphabet,
+                })
+                .then((r) => (r ? [r] : null))
+            : await client.generate(
+                entries,
+                { ...settings, seed, alphabet: puzzle.alphabet },
+                setProgress,
+              );
+        if (results) show({ layouts: results });
       } catch (err) {
         console.error("Ошибка генерации кроссворда:", err);
-        alert("Не удалось сгенерировать кроссворд. Попробуйте другие слова.");
+        const reason = err instanceof Error ? `\n\n${err.message}` : "";
+        alert(
+          `Не удалось сгенерировать кроссворд. Попробуйте другие слова.${reason}`,
+        );
       } finally {
         setIsGenerating(false);
+        setProgress(null);
+      }
+    },
+    [settings, puzzle],
+  );
+
+  // Показанная головоломка целиком — для библиотеки и автосохранения
+  const getSnapshot = useCallback((): PuzzleSnapshot | null => {
+    if (!result && !chain && !fillword) return null;
+    return {
+      entries: lastEntriesRef.current,
+      layouts,
+      selected: result ? layouts.indexOf(result) : -1,
+      chain,
+      fillword,
+      settings,
+      puzzle,
+    };
+  }, [result, layouts, chain, fillword, settings, puzzle]);
+
+  // Несохранённая работа записывается, пока не решено, восстанавливать ли прошлую
+  useEffect(() => {
+    if (!sessionChecked || restorable) return;
+    const timer = setTimeout(() => {
+      const snapshot = getSnapshot();
+      const saving =
+        draft.length === 0 && !snapshot
+          ? clearSession()
+          : saveSession({
+              entries: draft,
+              snapshot,
+              listId,
+              savedAt: Date.now(),
+            });
+      saving.catch((err) => console.error("Ошибка автосохранения:", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionChecked, restorable, draft, listId, getSnapshot]);
+
+  // Загрузить слова в панель ввода
+  const loadEntries = useCallback((entries: WordEntry[]) => {
+    setInitialEntries(entries);
+    setDraft(entries);
+    setInputKey((k) => k + 1);
+  }, []);
+
+  // Показать головоломку в точности как она была сохранена
+  const openSnapshot = useCallback(
+    (snapshot: PuzzleSnapshot) => {
+      setLayouts(snapshot.layouts);
+      setResult(snapshot.layouts[snapshot.selected] ?? null);
+      setChain(snapshot.chain);
+      setFillword(snapshot.fillword);
+      setSettings(snapshot.settings);
+      setPuzzle(snapshot.puzzle);
+      setFilled(true);
+      lastEntriesRef.current = snapshot.entries;
+      loadEntries(snapshot.entries);
+    },
+    [loadEntries],
+  );
+
+  const handleOpenList = useCallback(
+    (list: WordList) => {
+      loadEntries(list.entries);
+      setListId(list.id);
+    },
+    [loadEntries],
+  );
+
+  const handleOpenPuzzle = useCallback(
+    (list: WordList, saved: SavedPuzzle) => {
+      openSnapshot(saved);
+      setListId(list.id);
+    },
+    [openSnapshot],
+  );
+
+  const handleRestore = () => {
+    if (!restorable) return;
+    if (restorable.snapshot) openSnapshot(restorable.snapshot);
+    loadEntries(restorable.entries);
+    setListId(restorable.listId);
+    setRestorable(null);
+  };
+
+  // Заменить текущую раскладку изменённой, в том числе в галерее
+  const replaceResult = useCallback(
+    (updated: CrosswordResult) => {
+      setLayouts((prev) => prev.map((l) => (l === result ? updated : l)));
+      setResult(updated);
+    },
+    [result],
+  );
+
+  // Открытые буквы хранятся вместе с раскладкой
+  const handleReveal = useCallback(
+    (revealed: RevealedLetters | undefined) => {
+      if (result) replaceResult({ ...result, revealed });
+    },
+    [result, replaceResult],
+  );
+
+  // Внести правки списка в текущую сетку, не перестраивая её
+  const handleUpdate = useCallback(
+    (entries: WordEntry[]) => {
+      if (!result) return;
+      const { result: updated, failed } = applyEntries(result, entries, {
+        ...settings,
+        alphabet: puzzle.alphabet,
+      });
+      if (!updated) {
+        const regenerate = confirm(
+          `Не удалось вписать в готовую сетку: ${failed.join(", ")}.\n\nСгенерировать кроссворд заново?`,
+        );
+        if (regenerate) handleGenerate(entries);
+        return;
       }
-    }, 50);
+      lastEntriesRef.current = entries;
+      replaceResult(updated);
+    },
+    [result, settings, puzzle.alphabet, handleGenerate, replaceResult],
+  );
+
+  // Правки вносятся только в свободную раскладку: у остальных видов
+  // положение слов задано ключевым словом, шаблоном или клетками с вопросами
+  const canUpdate =
+    !fillword &&
+    !chain &&
+    result !== null &&
+    result.words.length > 0 &&
+    !result.keyword &&
+    !result.template &&
+    !result.clueCells;
+
+  // Таблицу со словами можно бросить на боковую панель
+  const [droppedFile, setDroppedFile] = useState<File | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragOver(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const file = e.dataTransfer.files[0];
+    setIsDragOver(false);
+    if (!file) return;
+    e.preventDefault();
+    setDroppedFile(file);
+  };
+
+  const handleCancel = useCallback(() => {
+    clientRef.current?.cancel();
   }, []);
 
   const handleRegenerate = useCallback(() => {
     if (lastEntriesRef.current.length >= 2) {
-      handleGenerate(lastEntriesRef.current);
+      handleGenerate(lastEntriesRef.current, randomSeed());
     }
   }, [handleGenerate]);
 
+  // Пересобрать кроссворд из тех же слов с заданным сидом
+  const handleRebuild = useCallback(
+    (seed: number) => {
+      if (lastEntriesRef.current.length >= 2) {
+        handleGenerate(lastEntriesRef.current, seed);
+      }
+    },
+    [handleGenerate],
+  );
+
+  const handleExport = useCallback(
+    async (exportFilled: boolean) => {
+      // Головоломка вкладывается в документ, чтобы его можно было открыть снова
+      const project = getSnapshot() ?? undefined;
+      if (fillword) {
+        await exportFillwordDocx(
+          fillword,
+          exportFilled,
+          `филворд-${exportFilled ? "ответы" : "задание"}.docx`,
+          project,
+        );
+      } else if (chain) {
+        await exportChainwordDocx(
+          chain,
+          exportFilled,
+          `чайнворд-${exportFilled ? "ответы" : "задание"}.docx`,
+          project,
+        );
+      } else if (result) {
+        const name = result.clueCells ? "сканворд" : "кроссворд";
+        await exportCrosswordDocx(
+          result,
+          exportFilled,
+          `${name}-${exportFilled ? "ответы" : name}.docx`,
+          project,
+        );
+      }
+    },
+    [fillword, chain, result, getSnapshot],
+  );
+
+  const handleSaveProject = useCallback(() => {
+    const snapshot = getSnapshot();
+    if (!snapshot) return;
+    const name = fillword
+      ? "филворд"
+      : chain
+        ? "чайнворд"
+        : result?.clueCells
+          ? "сканворд"
+          : "кроссворд";
+    saveProject(snapshot, name);
+  }, [getSnapshot, fillword, chain, result]);
+
+  const handleOpenProject = useCallback(
+    async (file: File) => {
+      openSnapshot(readProject(await file.text()));
+      setListId(null);
+    },
+    [openSnapshot],
+  );
+
+  const handleOpenDocx = useCallback(
+    async (file: File) => {
+      openSnapshot(await readDocxProject(file));
+      setListId(null);
+    },
+    [openSnapshot],
+  );
+
   const handleToggleFilled = useCallback(() => {
     setFilled((prev) => !prev);
   }, []);
@@ -49,30 +445,144 @@ const App: React.FC = () => {
       </header>
 
       <main className="app__main">
-        <aside className="app__sidebar">
-          <WordInput onGenerate={handleGenerate} isGenerating={isGenerating} />
+        <aside
+          className={`app__sidebar ${isDragOver ? "app__sidebar--drop" : ""}`}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          <WordInput
+            key={inputKey}
+            initialEntries={initialEntries}
+            onEntriesChange={setDraft}
+            onGenerate={handleGenerate}
+            onUpdate={canUpdate ? handleUpdate : undefined}
+            onCancel={handleCancel}
+            isGenerating={isGenerating}
+            progress={progress}
+            alphabet={puzzle.alphabet}
+            puzzleKind={puzzle.kind}
+            droppedFile={droppedFile}
+            onDroppedFileDone={() => setDroppedFile(null)}
+          />
+          <Library
+            entries={draft}
+            hasPuzzle={result !== null || chain !== null || fillword !== null}
+            getSnapshot={getSnapshot}
+            listId={listId}
+            onListIdChange={setListId}
+            onOpenList={handleOpenList}
+            onOpenPuzzle={handleOpenPuzzle}
+          />
+          <GenerationSettings
+            value={settings}
+            onChange={setSettings}
+            puzzle={puzzle}
+            onPuzzleChange={setPuzzle}
+            disabled={isGenerating}
+          />
         </aside>
 
         <section className="app__content">
-          {result && result.words.length > 0 ? (
+          {restorable && (
+            <div className="app__restore" role="status">
+              <span>
+                Осталась несохранённая работа от{" "}
+                {SESSION_DATE_FORMAT.format(restorable.savedAt)}.
+              </span>
+              <button
+                className="btn btn--primary btn--sm"
+                onClick={handleRestore}
+              >
+                Восстановить
+              </button>
+              <button
+                className="btn btn--secondary btn--sm"
+                onClick={() => setRestorable(null)}
+              >
+                Начать заново
+              </button>
+            </div>
+          )}
+          {fillword && fillword.words.length > 0 ? (
             <>
               <Toolbar
-                result={result}
+                puzzle={fillword}
+                filled={filled}
+                onToggleFilled={handleToggleFilled}
+                onRegenerate={handleRegenerate}
+                onRebuild={handleRebuild}
+                onExport={handleExport}
+                onSaveProject={handleSaveProject}
+                onOpenProject={handleOpenProject}
+                onOpenDocx={handleOpenDocx}
+              />
+              <FillwordView fillword={fillword} filled={filled} />
+            </>
+          ) : chain && chain.words.length > 0 ? (
+            <>
+              <Toolbar
+                puzzle={chain}
                 filled={filled}
                 onToggleFilled={handleToggleFilled}
                 onRegenerate={handleRegenerate}
+                onRebuild={handleRebuild}
+                onExport={handleExport}
+                onSaveProject={handleSaveProject}
+                onOpenProject={handleOpenProject}
+                onOpenDocx={handleOpenDocx}
+              />
+              <ChainwordView chain={chain} filled={filled} />
+            </>
+          ) : result && result.words.length > 0 ? (
+            <>
+              <Toolbar
+                puzzle={result}
+                filled={filled}
+                onToggleFilled={handleToggleFilled}
+                onRegenerate={handleRegenerate}
+                onRebuild={handleRebuild}
+                onExport={handleExport}
+                onSaveProject={handleSaveProject}
+                onOpenProject={handleOpenProject}
+                onOpenDocx={handleOpenDocx}
+              />
+              <LayoutGallery
+                layouts={layouts}
+                selected={result}
+                onSelect={setResult}
+              />
+              <CrosswordGrid
+                result={result}
+                filled={filled}
+                onEdit={canUpdate ? replaceResult : undefined}
+                onReveal={handleReveal}
+                alphabet={puzzle.alphabet}
               />
-              <CrosswordGrid result={result} filled={filled} />
             </>
           ) : (
-            <div className="app__placeholder">
-              <div className="app__placeholder-icon">🧩</div>
-              <h2>Кроссворд ещё не создан</h2>
-              <p>
-                Введите минимум 2 слова с подсказками в панели слева и нажмите{" "}
-                <strong>Сгенерировать</strong>, чтобы начать.
-              </p>
-            </div>
+            <>
+              <Toolbar
+                puzzle={null}
+                filled={filled}
+                onToggleFilled={handleToggleFilled}
+                onRegenerate={handleRegenerate}
+                onRebuild={handleRebuild}
+                onExport={handleExport}
+                onSaveProject={handleSaveProject}
+                onOpenProject={handleOpenProject}
+                onOpenDocx={handleOpenDocx}
+              />
+              <div className="app__placeholder">
+                <div className="app__placeholder-icon">🧩</div>
+                <h2>Кроссворд ещё не создан</h2>
+                <p>
+                  Введите минимум 2 слова с подсказками в панели слева и нажмите{" "}
+                  <strong>Сгенерировать</strong>, чтобы начать, или откройте
+                  сохранённый проект.
+                </p>
+              </div>
+            </>
           )}
         </section>
       </main>
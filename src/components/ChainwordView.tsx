@@ -0,0 +1,142 @@
+import React from "react";
+import type { ChainwordResult, UnplacedReason } from "../engine/types";
+import { chainTo2D, type ChainSide } from "../engine/chainword";
+import { unplacedHint } from "../utils/unplacedHint";
+
+const UNPLACED_REASON_TEXT: Record<UnplacedReason, string> = {
+  "too-long": "длиннее допустимого размера",
+  "out-of-bounds": "не помещается в сетку",
+  "no-placement": "ни с одним словом не сцепляется",
+  "not-needed": "не вошло в самую длинную цепочку",
+  "no-shared-letters": "нет общих букв ни с одним другим словом",
+  blocked: "все пересечения заняты",
+  duplicate: "уже есть в списке",
+  "too-short": "короче двух букв",
+  detached: "убрано из сетки вручную",
+};
+
+const SIDES: ChainSide[] = ["top", "right", "bottom", "left"];
+
+interface ChainwordViewProps {
+  chain: ChainwordResult;
+  filled: boolean;
+}
+
+/**
+ * Чайнворд: лента клеток, сложенная змейкой или спиралью.
+ * Толстые линии отделяют ленту от соседних витков.
+ */
+export const ChainwordView: React.FC<ChainwordViewProps> = ({
+  chain,
+  filled,
+}) => {
+  const rows = chainTo2D(chain);
+
+  return (
+    <div className="crossword-grid chainword">
+      <div className="crossword-grid__scroll-wrapper">
+        <table
+          className="crossword-grid__table"
+          cellSpacing={0}
+          cellPadding={0}
+        >
+          <tbody>
+            {rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((cell, colIndex) => {
+                  if (!cell) {
+                    return (
+                      <td
+                        key={colIndex}
+                        className="crossword-grid__cell chainword__cell--empty"
+                      />
+                    );
+                  }
+
+                  const walls = SIDES.filter((side) => !cell.joined[side])
+                    .map((side) => `chainword__cell--wall-${side}`)
+                    .join(" ");
+
+                  return (
+                    <td
+                      key={colIndex}
+                      className={`crossword-grid__cell chainword__cell ${walls}`}
+                    >
+                      {cell.number && (
+                        <span className="crossword-grid__cell-number">
+                          {cell.number}
+                        </span>
+                      )}
+                      {filled && (
+                        <span className="crossword-grid__cell-letter">
+                          {cell.letter}
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="crossword-grid__clues">
+        <div className="crossword-grid__clues-column">
+          <h3 className="crossword-grid__clues-heading">По цепочке</h3>
+          <ul className="crossword-grid__clues-list">
+            {chain.words.map((w) => (
+              <li key={w.number} className="crossword-grid__clue">
+                <span className="crossword-grid__clue-number">{w.number}.</span>
+                <span className="crossword-grid__clue-content">
+                  {w.clue ? (
+                    <span className="crossword-grid__clue-text">{w.clue}</span>
+                  ) : (
+                    <span className="crossword-grid__clue-text crossword-grid__clue-text--empty">
+                      (без подсказки)
+                    </span>
+                  )}
+                  {filled ? (
+                    <span className="crossword-grid__clue-answer">
+                      [{w.label}]
+                    </span>
+                  ) : (
+                    <span className="crossword-grid__clue-length">
+                      ({w.word.length} букв)
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {chain.unplacedWords.length > 0 && (
+        <div className="crossword-grid__unplaced">
+          <h4 className="crossword-grid__unplaced-title">
+            ⚠️ Не вошли в цепочку ({chain.unplacedWords.length}):
+          </h4>
+          <ul className="crossword-grid__unplaced-words">
+            {chain.unplacedDetails.map((u, i) => (
+              <li key={`${u.word}-${i}`}>
+                <span className="crossword-grid__unplaced-word">{u.word}</span>
+                <span className="crossword-grid__unplaced-reason">
+                  {" — "}
+                  {UNPLACED_REASON_TEXT[u.reason]}
+                </span>
+                {unplacedHint(u) && (
+                  <span className="crossword-grid__unplaced-hint">
+                    {unplacedHint(u)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChainwordView;
@@ -1,17 +1,159 @@
-import React from "react";
-import type { CrosswordResult, Cell } from "../engine/types";
+import React, { useRef, useState } from "react";
+import type {
+  AlphabetSettings,
+  CrosswordResult,
+  Cell,
+  ClueCell,
+  Direction,
+  PlacedWord,
+  RevealPreset,
+  RevealedLetters,
+  UnplacedReason,
+} from "../engine/types";
+import { resolveAlphabet } from "../engine/alphabet";
 import { gridTo2D } from "../engine/generator";
+import { formatEnumeration, key } from "../engine/grid";
+import { maskCellsOnGrid } from "../engine/mask";
+import {
+  checkPlacement,
+  detachWord,
+  looseWords,
+  moveWord,
+  type PlacementCheck,
+} from "../engine/edit";
+import {
+  DEFAULT_REVEAL_PERCENT,
+  revealLetters,
+  revealedCells,
+} from "../engine/reveal";
+import { unplacedHint } from "../utils/unplacedHint";
+
+const UNPLACED_REASON_TEXT: Record<UnplacedReason, string> = {
+  "too-long": "длиннее допустимого размера сетки",
+  "out-of-bounds": "пересечение есть, но сетка вышла бы за допустимый размер",
+  "no-placement": "не нашлось подходящего пересечения",
+  "not-needed": "все подходящие места заняты другими словами",
+  "no-shared-letters": "нет общих букв ни с одним другим словом",
+  blocked: "все пересечения упираются в соседние слова",
+  duplicate: "уже есть в списке",
+  "too-short": "короче двух букв",
+  detached: "убрано из сетки вручную",
+};
+
+const CLUE_ARROWS = { across: "→", down: "↓" } as const;
+
+/** Пустых клеток вокруг сетки при правке, чтобы слово можно было вынести за край */
+const EDIT_MARGIN = 2;
+
+const INVALID_DROP =
+  "Сюда слово не встанет: буквы не совпадают, слово касается соседей или выходит за фигуру.";
+
+/** Перетаскиваемое слово и буква, за которую его взяли */
+interface DragState {
+  word: string;
+  offset: number;
+  direction: Direction;
+}
+
+/** Куда встанет перетаскиваемое слово, если его отпустить */
+interface DropPreview {
+  word: string;
+  x: number;
+  y: number;
+  direction: Direction;
+  check: PlacementCheck;
+}
+
+/** Просмотр, ручная правка раскладки, решение на экране или выбор открытых букв */
+type GridMode = "view" | "edit" | "solve" | "reveal";
+
+/** Клетка, в которую сейчас вводится буква, и направление ввода */
+interface ActiveCell {
+  key: string;
+  direction: Direction;
+}
+
+/** Буквы, введённые при решении, — для той раскладки, где их вводили */
+interface SolveState {
+  result: CrosswordResult;
+  letters: Record<string, string>;
+}
+
+const REVEAL_LABELS: Record<RevealPreset, string> = {
+  percent: "Доля клеток",
+  "first-letters": "Первые буквы слов",
+  crossings: "Все пересечения",
+  manual: "Только выбранные вручную",
+};
+
+const flip = (direction: Direction): Direction =>
+  direction === "across" ? "down" : "across";
+
+const ARROWS: Record<string, { dx: number; dy: number }> = {
+  ArrowLeft: { dx: -1, dy: 0 },
+  ArrowRight: { dx: 1, dy: 0 },
+  ArrowUp: { dx: 0, dy: -1 },
+  ArrowDown: { dx: 0, dy: 1 },
+};
+
+/** Ключи клеток слова по порядку букв */
+function spanKeys(w: Pick<PlacedWord, "word" | "x" | "y" | "direction">) {
+  return Array.from(w.word, (_, i) =>
+    w.direction === "across" ? `${w.x + i},${w.y}` : `${w.x},${w.y + i}`,
+  );
+}
 
 interface CrosswordGridProps {
   result: CrosswordResult;
   filled: boolean;
+  /** Изменить раскладку вручную (нет — раскладку править нельзя) */
+  onEdit?: (result: CrosswordResult) => void;
+  /** Изменить открытые буквы пустого кроссворда (undefined — не открывать ни одной) */
+  onReveal?: (revealed: RevealedLetters | undefined) => void;
+  /** Алфавит головоломки: по нему приводятся буквы, набранные при решении */
+  alphabet?: AlphabetSettings;
 }
 
+/**
+ * Сетка кроссворда со списками подсказок. В режиме правки слова можно
+ * перетаскивать, поворачивать и убирать в лоток, а слова из лотка —
+ * ставить в сетку; каждое положение проверяется по тем же правилам, что и
+ * при генерации. В режиме решения кроссворд заполняют с клавиатуры.
+ * Открытые буквы видны в пустом кроссворде и не стираются при решении.
+ */
 export const CrosswordGrid: React.FC<CrosswordGridProps> = ({
   result,
   filled,
+  onEdit,
+  onReveal,
+  alphabet: alphabetSettings,
 }) => {
-  const grid2D = gridTo2D(result);
+  const [mode, setMode] = useState<GridMode>("view");
+  const [selected, setSelected] = useState<string | null>(null);
+  const [preview, setPreview] = useState<DropPreview | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [spareDirection, setSpareDirection] = useState<Direction>("across");
+  const dragRef = useRef<DragState | null>(null);
+  const [solve, setSolve] = useState<SolveState | null>(null);
+  const [active, setActive] = useState<ActiveCell | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const isEditing = mode === "edit" && onEdit !== undefined;
+  const isSolving = mode === "solve";
+  const isRevealing = mode === "reveal" && onReveal !== undefined;
+  const revealed = revealedCells(result);
+  // При правке вокруг сетки остаются свободные клетки
+  const bounds = isEditing
+    ? {
+        minX: result.bounds.minX - EDIT_MARGIN,
+        minY: result.bounds.minY - EDIT_MARGIN,
+        maxX: result.bounds.maxX + EDIT_MARGIN,
+        maxY: result.bounds.maxY + EDIT_MARGIN,
+        width: result.bounds.width + 2 * EDIT_MARGIN,
+        height: result.bounds.height + 2 * EDIT_MARGIN,
+      }
+    : result.bounds;
+  const grid2D = gridTo2D({ ...result, bounds });
 
   if (grid2D.length === 0) {
     return (
@@ -29,9 +171,510 @@ export const CrosswordGrid: React.FC<CrosswordGridProps> = ({
     .filter((w) => w.direction === "down")
     .sort((a, b) => a.number - b.number);
 
+  const { keyword } = result;
+  // В сканворде вопросы стоят в клетках сетки, а не отдельным списком
+  const clueCells = new Map<string, ClueCell>(
+    (result.clueCells ?? []).map((c) => [`${c.x},${c.y}`, c]),
+  );
+  const isScanword = result.clueCells !== undefined;
+  // Последние буквы частей ответа из нескольких слов: за ними — толстая граница
+  const breakRight = new Set<string>();
+  const breakBelow = new Set<string>();
+  for (const w of result.words) {
+    for (const { at } of w.breaks ?? []) {
+      if (w.direction === "across") breakRight.add(`${w.x + at - 1},${w.y}`);
+      else breakBelow.add(`${w.x},${w.y + at - 1}`);
+    }
+  }
+  const maskCells = result.mask
+    ? maskCellsOnGrid(result.mask)
+    : new Set<string>();
+  const isKeywordCell = (colIndex: number, rowIndex: number) => {
+    if (!keyword) return false;
+    const row = bounds.minY + rowIndex - keyword.y;
+    return (
+      bounds.minX + colIndex === keyword.x &&
+      row >= 0 &&
+      row < keyword.word.length
+    );
+  };
+
+  // ----- Правка раскладки -----
+  const wordsAt = new Map<string, PlacedWord[]>();
+  for (const w of result.words) {
+    for (const k of spanKeys(w)) wordsAt.set(k, [...(wordsAt.get(k) ?? []), w]);
+  }
+  const selectedWord = result.words.find((w) => w.word === selected);
+  const selectedKeys = new Set(selectedWord ? spanKeys(selectedWord) : []);
+  const previewLetters = new Map(
+    preview ? spanKeys(preview).map((k, i) => [k, preview.word[i]]) : [],
+  );
+  const previewKind = !preview
+    ? ""
+    : !preview.check.valid
+      ? "invalid"
+      : preview.check.connected
+        ? "valid"
+        : "loose";
+  const loose = isEditing ? looseWords(result.words) : [];
+  const looseKeys = new Set(loose.flatMap(spanKeys));
+  const spares = result.unplacedDetails.flatMap((u) =>
+    u.spare ? [u.spare] : [],
+  );
+
+  const apply = (next: CrosswordResult | null, failure: string) => {
+    if (!next) {
+      setStatus(failure);
+      return;
+    }
+    setStatus(null);
+    onEdit?.(next);
+  };
+
+  // Щелчок по пересечению по очереди выбирает оба слова
+  const handleCellClick = (k: string) => {
+    const here = wordsAt.get(k) ?? [];
+    const index = here.findIndex((w) => w.word === selected);
+    setSelected(here.length > 0 ? here[(index + 1) % here.length].word : null);
+  };
+
+  const startDrag = (e: React.DragEvent, drag: DragState, label: string) => {
+    dragRef.current = drag;
+    e.dataTransfer.setData("text/plain", label);
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+    setPreview(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, x: number, y: number) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    e.preventDefault();
+    const startX = drag.direction === "across" ? x - drag.offset : x;
+    const startY = drag.direction === "down" ? y - drag.offset : y;
+    if (
+      preview?.word === drag.word &&
+      preview.x === startX &&
+      preview.y === startY &&
+      preview.direction === drag.direction
+    ) {
+      return;
+    }
+    setPreview({
+      word: drag.word,
+      x: startX,
+      y: startY,
+      direction: drag.direction,
+      check: checkPlacement(result, drag.word, startX, startY, drag.direction),
+    });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const target = preview;
+    endDrag();
+    if (!target) return;
+    apply(
+      moveWord(result, target.word, target.x, target.y, target.direction),
+      INVALID_DROP,
+    );
+    setSelected(target.word);
+  };
+
+  const handleFlip = () => {
+    if (!selectedWord) return;
+    const { word, x, y, direction } = selectedWord;
+    apply(
+      moveWord(result, word, x, y, direction === "across" ? "down" : "across"),
+      "Повернуть слово на месте не получается — перетащите его туда, где оно встанет поперёк.",
+    );
+  };
+
+  // Последнее слово не убирается: сетке не за что было бы зацепиться
+  const handleDetach = (word: string) => {
+    if (result.words.length <= 1) return;
+    setSelected(null);
+    setStatus(null);
+    onEdit?.(detachWord(result, word));
+  };
+
+  const switchMode = (next: GridMode) => {
+    setMode(mode === next ? "view" : next);
+    setSelected(null);
+    setStatus(null);
+    setActive(null);
+  };
+
+  // ----- Решение на экране -----
+  // Другая раскладка начинается с чистой сетки
+  const letters = solve?.result === result ? solve.letters : {};
+  const setLetter = (k: string, letter: string) => {
+    if (!revealed.has(k)) {
+      setSolve({ result, letters: { ...letters, [k]: letter } });
+    }
+  };
+  const solved = Array.from(result.grid).every(
+    ([k, cell]) => revealed.has(k) || letters[k] === cell.letter,
+  );
+  const activeWord = active
+    ? wordsAt.get(active.key)?.find((w) => w.direction === active.direction)
+    : undefined;
+  const activeKeys = new Set(activeWord ? spanKeys(activeWord) : []);
+
+  const focusCell = (key: string, direction: Direction) => {
+    const here = wordsAt.get(key) ?? [];
+    // Направление меняется, если в эту сторону через клетку нет слова
+    const fits = here.some((w) => w.direction === direction);
+    setActive({
+      key,
+      direction: fits || here.length === 0 ? direction : flip(direction),
+    });
+    gridRef.current?.focus();
+  };
+
+  // Повторный щелчок по клетке переключает направление
+  const handleSolveClick = (k: string) => {
+    const direction = active?.direction ?? "across";
+    focusCell(k, active?.key === k ? flip(direction) : direction);
+  };
+
+  const jumpToWord = (w: PlacedWord) => focusCell(key(w.x, w.y), w.direction);
+
+  /** Ближайшая клетка с буквой от (x, y) в сторону (dx, dy) */
+  const nextLetterCell = (x: number, y: number, dx: number, dy: number) => {
+    const { minX, minY, maxX, maxY } = result.bounds;
+    for (
+      let cx = x + dx, cy = y + dy;
+      cx >= minX && cx <= maxX && cy >= minY && cy <= maxY;
+      cx += dx, cy += dy
+    ) {
+      if (result.grid.has(key(cx, cy))) return key(cx, cy);
+    }
+    return null;
+  };
+
+  const handleSolveKey = (e: React.KeyboardEvent) => {
+    if (!active || e.ctrlKey || e.metaKey || e.altKey) return;
+    const [x, y] = active.key.split(",").map(Number);
+    const wordKeys = activeWord ? spanKeys(activeWord) : [active.key];
+    const index = wordKeys.indexOf(active.key);
+
+    const arrow = ARROWS[e.key];
+    if (arrow) {
+      e.preventDefault();
+      const direction: Direction = arrow.dx !== 0 ? "across" : "down";
+      const crossing = wordsAt
+        .get(active.key)
+        ?.some((w) => w.direction === direction);
+      // Стрелка поперёк слова сначала поворачивает ввод
+      if (direction !== active.direction && crossing) {
+        setActive({ ...active, direction });
+        return;
+      }
+      const next = nextLetterCell(x, y, arrow.dx, arrow.dy);
+      if (next) focusCell(next, direction);
+      return;
+    }
+    if (e.key === "Tab") {
+      e.preventDefault();
+      const order = [...acrossWords, ...downWords];
+      const current = activeWord ? order.indexOf(activeWord) : -1;
+      const step = e.shiftKey ? -1 : 1;
+      jumpToWord(order[(current + step + order.length) % order.length]);
+      return;
+    }
+    if (e.key === "Backspace") {
+      e.preventDefault();
+      // Пустая клетка — стираем предыдущую букву слова
+      if (!letters[active.key] && index > 0) {
+        setLetter(wordKeys[index - 1], "");
+        setActive({ ...active, key: wordKeys[index - 1] });
+      } else {
+        setLetter(active.key, "");
+      }
+      return;
+    }
+    if (e.key === "Delete") {
+      e.preventDefault();
+      setLetter(active.key, "");
+      return;
+    }
+    if (e.key.length !== 1) return;
+    // Буква приводится по алфавиту головоломки, как слова сетки; чужие не вводятся
+    const letter = resolveAlphabet(
+      alphabetSettings,
+      result.words.map((w) => w.label),
+    ).normalise(e.key);
+    if (letter) {
+      e.preventDefault();
+      setLetter(active.key, letter);
+      if (index < wordKeys.length - 1) {
+        setActive({ ...active, key: wordKeys[index + 1] });
+      }
+    }
+  };
+
+  // ----- Открытые буквы -----
+  const revealPreset = result.revealed?.preset;
+  const revealPercent = result.revealed?.percent ?? DEFAULT_REVEAL_PERCENT;
+
+  const handleRevealPreset = (preset: RevealPreset | "") =>
+    onReveal?.(
+      preset ? revealLetters(result, preset, revealPercent) : undefined,
+    );
+
+  const handleRevealPercent = (text: string) => {
+    const percent = Math.round(Number(text));
+    if (!Number.isFinite(percent)) return;
+    onReveal?.(
+      revealLetters(result, "percent", Math.min(100, Math.max(0, percent))),
+    );
+  };
+
+  // Щелчок по клетке открывает или закрывает её букву; выбор становится ручным
+  const toggleRevealed = (k: string) => {
+    const cells = revealed.has(k)
+      ? [...revealed].filter((c) => c !== k)
+      : [...revealed, k];
+    onReveal?.({
+      preset: "manual",
+      percent: revealPercent,
+      cells,
+    });
+  };
+
+  // Что видно в клетке с буквой в текущем режиме
+  const letterOf = (k: string, cell: Cell) => {
+    if (isSolving) return revealed.has(k) ? cell.letter : letters[k];
+    if (filled || isEditing || isRevealing || revealed.has(k)) {
+      return cell.letter;
+    }
+    return undefined;
+  };
+  const marksRevealed = !isEditing && !(filled && mode === "view");
+
+  // Обработчики клетки сетки в режиме правки
+  const editProps = (x: number, y: number) =>
+    isEditing
+      ? {
+          onDragOver: (e: React.DragEvent) => handleDragOver(e, x, y),
+          onDrop: handleDrop,
+        }
+      : {};
+
+  const editCellClass = (k: string) =>
+    `${selectedKeys.has(k) ? "crossword-grid__cell--selected" : ""} ${looseKeys.has(k) ? "crossword-grid__cell--loose" : ""} ${previewLetters.has(k) ? `crossword-grid__cell--preview-${previewKind}` : ""}`;
+
   return (
-    <div className="crossword-grid">
-      <div className="crossword-grid__scroll-wrapper">
+    <div
+      className={`crossword-grid ${isScanword ? "crossword-grid--scanword" : ""} ${isEditing ? "crossword-grid--editing" : ""} ${isSolving ? "crossword-grid--solving" : ""} ${isRevealing ? "crossword-grid--revealing" : ""}`}
+    >
+      {result.words.length > 0 && (
+        <div className="crossword-grid__editor">
+          <div className="crossword-grid__editor-actions">
+            <button
+              className={`btn btn--sm ${isSolving ? "btn--primary" : "btn--secondary"}`}
+              onClick={() => switchMode("solve")}
+            >
+              {isSolving ? "✓ Закончить" : "✍ Решать"}
+            </button>
+            {onEdit && (
+              <button
+                className={`btn btn--sm ${isEditing ? "btn--primary" : "btn--secondary"}`}
+                onClick={() => switchMode("edit")}
+              >
+                {isEditing ? "✓ Готово" : "✥ Править раскладку"}
+              </button>
+            )}
+            {onReveal && (
+              <button
+                className={`btn btn--sm ${isRevealing ? "btn--primary" : "btn--secondary"}`}
+                onClick={() => switchMode("reveal")}
+                title="Какие буквы видны в кроссворде без ответов"
+              >
+                {isRevealing ? "✓ Готово" : "🔡 Открытые буквы"}
+              </button>
+            )}
+            {isSolving && (
+              <button
+                className="btn btn--secondary btn--sm"
+                onClick={() => setSolve(null)}
+                disabled={Object.values(letters).every((l) => !l)}
+              >
+                Стереть всё
+              </button>
+            )}
+            {isEditing && selectedWord && (
+              <>
+                <button
+                  className="btn btn--secondary btn--sm"
+                  onClick={handleFlip}
+                  title="Повернуть слово вокруг первой буквы"
+                >
+                  ↻ Повернуть
+                </button>
+                <button
+                  className="btn btn--secondary btn--sm"
+                  onClick={() => handleDetach(selectedWord.word)}
+                  disabled={result.words.length <= 1}
+                  title="Убрать слово из сетки в лоток"
+                >
+                  ⇥ В лоток
+                </button>
+              </>
+            )}
+          </div>
+
+          {isEditing && (
+            <>
+              <p className="crossword-grid__editor-hint">
+                Щёлкните по слову, чтобы выбрать его, и перетащите за любую
+                букву. Зелёным подсвечивается место, куда слово встанет, красным
+                — где не встанет, жёлтым — где кроссворд распадётся на части.
+              </p>
+              {status && (
+                <p className="crossword-grid__editor-status" role="alert">
+                  {status}
+                </p>
+              )}
+              {loose.length > 0 && (
+                <p className="crossword-grid__editor-status">
+                  ⚠️ Кроссворд распался на части:{" "}
+                  {loose.map((w) => w.label).join(", ")} не связаны с остальными
+                  словами.
+                </p>
+              )}
+              <div
+                className="crossword-grid__tray"
+                onDragOver={(e) => {
+                  if (
+                    result.words.some((w) => w.word === dragRef.current?.word)
+                  ) {
+                    e.preventDefault();
+                  }
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  const drag = dragRef.current;
+                  endDrag();
+                  if (drag) handleDetach(drag.word);
+                }}
+              >
+                <div className="crossword-grid__tray-header">
+                  <span className="crossword-grid__tray-title">
+                    Лоток ({spares.length})
+                  </span>
+                  <button
+                    className="btn btn--secondary btn--sm"
+                    onClick={() =>
+                      setSpareDirection(
+                        spareDirection === "across" ? "down" : "across",
+                      )
+                    }
+                    title="Направление, в котором слова из лотка встают в сетку"
+                  >
+                    {spareDirection === "across"
+                      ? "→ По горизонтали"
+                      : "↓ По вертикали"}
+                  </button>
+                </div>
+                {spares.length > 0 ? (
+                  <ul className="crossword-grid__tray-words">
+                    {spares.map((spare) => (
+                      <li
+                        key={spare.word}
+                        className="crossword-grid__tray-word"
+                        draggable
+                        onDragStart={(e) =>
+                          startDrag(
+                            e,
+                            {
+                              word: spare.word,
+                              offset: 0,
+                              direction: spareDirection,
+                            },
+                            spare.label,
+                          )
+                        }
+                        onDragEnd={endDrag}
+                        title="Перетащите в сетку: первая буква встанет в клетку под курсором"
+                      >
+                        {spare.label}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="crossword-grid__tray-empty">
+                    Перетащите сюда слово из сетки, чтобы убрать его.
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
+          {isRevealing && (
+            <>
+              <div className="crossword-grid__editor-actions">
+                <select
+                  className="settings__control"
+                  value={revealPreset ?? ""}
+                  onChange={(e) =>
+                    handleRevealPreset(e.target.value as RevealPreset | "")
+                  }
+                  aria-label="Какие буквы открыть"
+                >
+                  <option value="">Не открывать</option>
+                  {(Object.keys(REVEAL_LABELS) as RevealPreset[]).map((p) => (
+                    <option key={p} value={p}>
+                      {REVEAL_LABELS[p]}
+                    </option>
+                  ))}
+                </select>
+                {revealPreset === "percent" && (
+                  <label className="crossword-grid__reveal-percent">
+                    <input
+                      className="settings__control settings__control--number"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={revealPercent}
+                      onChange={(e) => handleRevealPercent(e.target.value)}
+                    />
+                    %
+                  </label>
+                )}
+              </div>
+              <p className="crossword-grid__editor-hint">
+                Щёлкайте по клеткам, чтобы открыть или закрыть отдельные буквы.
+                Открыто {revealed.size} из {result.grid.size}; те же буквы будут
+                в пустом DOCX.
+              </p>
+            </>
+          )}
+
+          {isSolving && (
+            <p className="crossword-grid__editor-hint">
+              Щёлкните по клетке и печатайте. Стрелки и Tab переходят по клеткам
+              и словам, повторный щелчок по клетке меняет направление.
+              {solved && (
+                <strong className="crossword-grid__solved">
+                  {" "}
+                  🎉 Кроссворд решён!
+                </strong>
+              )}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div
+        className={`crossword-grid__scroll-wrapper ${isSolving ? "crossword-grid__scroll-wrapper--solving" : ""}`}
+        ref={gridRef}
+        {...(isSolving && { tabIndex: 0, onKeyDown: handleSolveKey })}
+      >
         <table
           className="crossword-grid__table"
           cellSpacing={0}
@@ -41,28 +684,89 @@ export const CrosswordGrid: React.FC<CrosswordGridProps> = ({
             {grid2D.map((row: (Cell | null)[], rowIndex: number) => (
               <tr key={rowIndex}>
                 {row.map((cell: Cell | null, colIndex: number) => {
+                  const x = bounds.minX + colIndex;
+                  const y = bounds.minY + rowIndex;
+                  const k = `${x},${y}`;
                   if (!cell) {
+                    const clueCell = clueCells.get(k);
+                    if (clueCell) {
+                      return (
+                        <td
+                          key={colIndex}
+                          className={`crossword-grid__cell crossword-grid__cell--clue ${clueCell.clues.length > 1 ? "crossword-grid__cell--clue-split" : ""}`}
+                        >
+                          {clueCell.clues.map((c) => (
+                            <div
+                              key={c.direction}
+                              className="crossword-grid__cell-clue"
+                              title={c.text || undefined}
+                            >
+                              <span className="crossword-grid__cell-clue-text">
+                                {c.text || c.number}
+                              </span>
+                              <span className="crossword-grid__cell-clue-arrow">
+                                {CLUE_ARROWS[c.direction]}
+                              </span>
+                            </div>
+                          ))}
+                        </td>
+                      );
+                    }
+                    // В плотной сетке пустые клетки — чёрные клетки шаблона
+                    const kind = result.template
+                      ? "block"
+                      : maskCells.has(k)
+                        ? "mask"
+                        : "black";
                     return (
                       <td
                         key={colIndex}
-                        className="crossword-grid__cell crossword-grid__cell--black"
-                      />
+                        className={`crossword-grid__cell crossword-grid__cell--${kind} ${isEditing ? editCellClass(k) : ""}`}
+                        {...editProps(x, y)}
+                      >
+                        {previewLetters.has(k) && (
+                          <span className="crossword-grid__cell-letter">
+                            {previewLetters.get(k)}
+                          </span>
+                        )}
+                      </td>
                     );
                   }
 
                   return (
                     <td
                       key={colIndex}
-                      className="crossword-grid__cell crossword-grid__cell--letter"
+                      className={`crossword-grid__cell crossword-grid__cell--letter ${isKeywordCell(colIndex, rowIndex) ? "crossword-grid__cell--keyword" : ""} ${breakRight.has(k) ? "crossword-grid__cell--break-right" : ""} ${breakBelow.has(k) ? "crossword-grid__cell--break-below" : ""} ${isEditing ? editCellClass(k) : ""} ${activeKeys.has(k) ? "crossword-grid__cell--active-word" : ""} ${isSolving && active?.key === k ? "crossword-grid__cell--active" : ""} ${marksRevealed && revealed.has(k) ? "crossword-grid__cell--revealed" : ""}`}
+                      {...editProps(x, y)}
+                      {...(isSolving && { onClick: () => handleSolveClick(k) })}
+                      {...(isRevealing && { onClick: () => toggleRevealed(k) })}
+                      {...(isEditing && {
+                        onClick: () => handleCellClick(k),
+                        draggable: selectedKeys.has(k),
+                        onDragStart: (e: React.DragEvent) =>
+                          selectedWord &&
+                          startDrag(
+                            e,
+                            {
+                              word: selectedWord.word,
+                              offset: spanKeys(selectedWord).indexOf(k),
+                              direction: selectedWord.direction,
+                            },
+                            selectedWord.label,
+                          ),
+                        onDragEnd: endDrag,
+                      })}
                     >
-                      {cell.number && (
+                      {cell.number && !isScanword && (
                         <span className="crossword-grid__cell-number">
                           {cell.number}
                         </span>
                       )}
-                      {filled && (
-                        <span className="crossword-grid__cell-letter">
-                          {cell.letter}
+                      {letterOf(k, cell) && (
+                        <span
+                          className={`crossword-grid__cell-letter ${isRevealing && !revealed.has(k) ? "crossword-grid__cell-letter--hidden" : ""}`}
+                        >
+                          {letterOf(k, cell)}
                         </span>
                       )}
                     </td>
@@ -74,7 +778,28 @@ export const CrosswordGrid: React.FC<CrosswordGridProps> = ({
         </table>
       </div>
 
-      {result.words.length > 0 && (
+      {keyword && (
+        <div className="crossword-grid__keyword">
+          Ключевое слово{" "}
+          {filled && !isSolving ? (
+            <strong>{keyword.word}</strong>
+          ) : (
+            <>({keyword.word.length} букв)</>
+          )}{" "}
+          читается в выделенном столбце.
+          {keyword.uncovered.length > 0 && (
+            <div className="crossword-grid__keyword-uncovered">
+              ⚠️ Не нашлось слов для букв:{" "}
+              {keyword.uncovered
+                .map((u) => `${u.letter} (${u.index + 1}-я)`)
+                .join(", ")}
+              . Добавьте слова с этими буквами.
+            </div>
+          )}
+        </div>
+      )}
+
+      {result.words.length > 0 && !isScanword && (
         <div className="crossword-grid__clues">
           <div className="crossword-grid__clues-column">
             <h3 className="crossword-grid__clues-heading">
@@ -82,7 +807,11 @@ export const CrosswordGrid: React.FC<CrosswordGridProps> = ({
             </h3>
             <ul className="crossword-grid__clues-list">
               {acrossWords.map((w) => (
-                <li key={`across-${w.number}`} className="crossword-grid__clue">
+                <li
+                  key={`across-${w.number}`}
+                  className={`crossword-grid__clue ${w === activeWord ? "crossword-grid__clue--active" : ""}`}
+                  onClick={isSolving ? () => jumpToWord(w) : undefined}
+                >
                   <span className="crossword-grid__clue-number">
                     {w.number}.
                   </span>
@@ -96,13 +825,15 @@ export const CrosswordGrid: React.FC<CrosswordGridProps> = ({
                         (без подсказки)
                       </span>
                     )}
-                    {filled ? (
+                    {filled && !isSolving ? (
                       <span className="crossword-grid__clue-answer">
                         [{w.label}]
                       </span>
                     ) : (
                       <span className="crossword-grid__clue-length">
-                        ({w.word.length} букв)
+                        {w.breaks
+                          ? `(${formatEnumeration(w.word.length, w.breaks)})`
+                          : `(${w.word.length} букв)`}
                       </span>
                     )}
                   </span>
@@ -111,38 +842,48 @@ export const CrosswordGrid: React.FC<CrosswordGridProps> = ({
             </ul>
           </div>
 
-          <div className="crossword-grid__clues-column">
-            <h3 className="crossword-grid__clues-heading">По вертикали (↓)</h3>
-            <ul className="crossword-grid__clues-list">
-              {downWords.map((w) => (
-                <li key={`down-${w.number}`} className="crossword-grid__clue">
-                  <span className="crossword-grid__clue-number">
-                    {w.number}.
-                  </span>
-                  <span className="crossword-grid__clue-content">
-                    {w.clue ? (
-                      <span className="crossword-grid__clue-text">
-                        {w.clue}
-                      </span>
-                    ) : (
-                      <span className="crossword-grid__clue-text crossword-grid__clue-text--empty">
-                        (без подсказки)
-                      </span>
-                    )}
-                    {filled ? (
-                      <span className="crossword-grid__clue-answer">
-                        [{w.label}]
-                      </span>
-                    ) : (
-                      <span className="crossword-grid__clue-length">
-                        ({w.word.length} букв)
-                      </span>
-                    )}
-                  </span>
-                </li>
-              ))}
-            </ul>
-          </div>
+          {downWords.length > 0 && (
+            <div className="crossword-grid__clues-column">
+              <h3 className="crossword-grid__clues-heading">
+                По вертикали (↓)
+              </h3>
+              <ul className="crossword-grid__clues-list">
+                {downWords.map((w) => (
+                  <li
+                    key={`down-${w.number}`}
+                    className={`crossword-grid__clue ${w === activeWord ? "crossword-grid__clue--active" : ""}`}
+                    onClick={isSolving ? () => jumpToWord(w) : undefined}
+                  >
+                    <span className="crossword-grid__clue-number">
+                      {w.number}.
+                    </span>
+                    <span className="crossword-grid__clue-content">
+                      {w.clue ? (
+                        <span className="crossword-grid__clue-text">
+                          {w.clue}
+                        </span>
+                      ) : (
+                        <span className="crossword-grid__clue-text crossword-grid__clue-text--empty">
+                          (без подсказки)
+                        </span>
+                      )}
+                      {filled && !isSolving ? (
+                        <span className="crossword-grid__clue-answer">
+                          [{w.label}]
+                        </span>
+                      ) : (
+                        <span className="crossword-grid__clue-length">
+                          {w.breaks
+                            ? `(${formatEnumeration(w.word.length, w.breaks)})`
+                            : `(${w.word.length} букв)`}
+                        </span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       )}
 
@@ -151,9 +892,22 @@ export const CrosswordGrid: React.FC<CrosswordGridProps> = ({
           <h4 className="crossword-grid__unplaced-title">
             ⚠️ Не удалось разместить ({result.unplacedWords.length}):
           </h4>
-          <p className="crossword-grid__unplaced-words">
-            {result.unplacedWords.join(", ")}
-          </p>
+          <ul className="crossword-grid__unplaced-words">
+            {result.unplacedDetails.map((u, i) => (
+              <li key={`${u.word}-${i}`}>
+                <span className="crossword-grid__unplaced-word">{u.word}</span>
+                <span className="crossword-grid__unplaced-reason">
+                  {" — "}
+                  {UNPLACED_REASON_TEXT[u.reason]}
+                </span>
+                {unplacedHint(u) && (
+                  <span className="crossword-grid__unplaced-hint">
+                    {unplacedHint(u)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
         </div>
       )}
     </div>
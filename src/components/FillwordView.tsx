@@ -0,0 +1,122 @@
+import React from "react";
+import type { FillwordResult, UnplacedReason } from "../engine/types";
+import { answerColor } from "../utils/answerColors";
+import { unplacedHint } from "../utils/unplacedHint";
+
+const UNPLACED_REASON_TEXT: Record<UnplacedReason, string> = {
+  "too-long": "длиннее стороны сетки",
+  "out-of-bounds": "не помещается в сетку",
+  "no-placement": "не нашлось свободного места",
+  "not-needed": "не понадобилось",
+  "no-shared-letters": "нет общих букв ни с одним другим словом",
+  blocked: "все места заняты другими словами",
+  duplicate: "уже есть в списке",
+  "too-short": "короче двух букв",
+  detached: "убрано из сетки вручную",
+};
+
+interface FillwordViewProps {
+  fillword: FillwordResult;
+  filled: boolean;
+}
+
+/**
+ * Филворд: сетка букв и список слов, которые нужно найти.
+ * В режиме ответов слова подсвечиваются каждое своим цветом.
+ */
+export const FillwordView: React.FC<FillwordViewProps> = ({
+  fillword,
+  filled,
+}) => {
+  // Индекс слова, которому принадлежит клетка (при пересечении — последнего)
+  const owner = new Map<string, number>();
+  fillword.words.forEach((w, i) =>
+    w.cells.forEach(({ x, y }) => owner.set(`${x},${y}`, i)),
+  );
+
+  return (
+    <div className="crossword-grid fillword">
+      <div className="crossword-grid__scroll-wrapper">
+        <table
+          className="crossword-grid__table"
+          cellSpacing={0}
+          cellPadding={0}
+        >
+          <tbody>
+            {fillword.letters.map((row, y) => (
+              <tr key={y}>
+                {row.map((letter, x) => {
+                  const index = owner.get(`${x},${y}`);
+                  const highlighted = filled && index !== undefined;
+                  return (
+                    <td
+                      key={x}
+                      className="crossword-grid__cell fillword__cell"
+                      style={
+                        highlighted
+                          ? { background: `#${answerColor(index)}` }
+                          : undefined
+                      }
+                    >
+                      <span className="crossword-grid__cell-letter">
+                        {letter}
+                      </span>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="crossword-grid__clues">
+        <div className="crossword-grid__clues-column">
+          <h3 className="crossword-grid__clues-heading">
+            Найдите слова ({fillword.words.length})
+          </h3>
+          <ul className="fillword__words">
+            {fillword.words.map((w, i) => (
+              <li
+                key={w.word}
+                className="fillword__word"
+                style={
+                  filled ? { background: `#${answerColor(i)}` } : undefined
+                }
+                title={w.clue || undefined}
+              >
+                {w.label}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {fillword.unplacedWords.length > 0 && (
+        <div className="crossword-grid__unplaced">
+          <h4 className="crossword-grid__unplaced-title">
+            ⚠️ Не поместились в сетку ({fillword.unplacedWords.length}):
+          </h4>
+          <ul className="crossword-grid__unplaced-words">
+            {fillword.unplacedDetails.map((u, i) => (
+              <li key={`${u.word}-${i}`}>
+                <span className="crossword-grid__unplaced-word">{u.word}</span>
+                <span className="crossword-grid__unplaced-reason">
+                  {" — "}
+                  {UNPLACED_REASON_TEXT[u.reason]}
+                </span>
+                {unplacedHint(u) && (
+                  <span className="crossword-grid__unplaced-hint">
+                    {unplacedHint(u)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FillwordView;
@@ -0,0 +1,783 @@
+import React from "react";
+import type {
+  AlphabetId,
+  ChainShape,
+  DenseSettings,
+  FillDirection,
+  FillwordMode,
+  GenerationOptions,
+  LayoutObjectives,
+  LetterFolding,
+  PuzzleKind,
+  PuzzleSettings,
+  SearchMode,
+} from "../engine/types";
+import { DEFAULT_OBJECTIVES } from "../engine/scoring";
+import { generateTemplate, templateToText } from "../engine/template";
+import { createRandom, randomSeed } from "../engine/random";
+import { ShapeMaskSettings } from "./ShapeMaskSettings";
+import { ALPHABET_PROFILES, LETTER_FOLDINGS } from "../engine/alphabet";
+
+interface GenerationSettingsProps {
+  value: GenerationOptions;
+  onChange: (value: GenerationOptions) => void;
+  disabled: boolean;
+  puzzle: PuzzleSettings;
+  onPuzzleChange: (value: PuzzleSettings) => void;
+}
+
+const PUZZLE_LABELS: Record<PuzzleKind, string> = {
+  free: "Обычный кроссворд",
+  keyword: "С ключевым словом",
+  chain: "Чайнворд",
+  fillword: "Филворд (поиск слов)",
+  dense: "Плотная сетка (по словарю)",
+  scanword: "Сканворд",
+};
+
+const ALPHABET_LABELS: Record<AlphabetId, string> = {
+  auto: "Определить по словам",
+  russian: "Русский",
+  english: "Английский",
+  ukrainian: "Украинский",
+  belarusian: "Белорусский",
+  german: "Немецкий",
+  spanish: "Испанский",
+};
+
+const FOLDING_LABELS: Record<LetterFolding, string> = {
+  yo: "Ё → Е",
+  "sharp-s": "ß → SS",
+  umlauts: "Ä, Ö, Ü → AE, OE, UE",
+  accents: "Á, É, Í, Ó, Ú → A, E, I, O, U",
+};
+
+const MIN_DENSE_SIZE = 3;
+const MAX_DENSE_SIZE = 21;
+
+const FILL_MODE_LABELS: Record<FillwordMode, string> = {
+  straight: "По прямым линиям",
+  snake: "Змейкой с изгибами",
+};
+
+/** Стрелки направлений в порядке клеток 3×3 (центр пустой) */
+const FILL_DIRECTION_GRID: (FillDirection | null)[] = [
+  "up-left",
+  "up",
+  "up-right",
+  "left",
+  null,
+  "right",
+  "down-left",
+  "down",
+  "down-right",
+];
+
+const FILL_DIRECTION_ICONS: Record<FillDirection, string> = {
+  "up-left": "↖",
+  up: "↑",
+  "up-right": "↗",
+  left: "←",
+  right: "→",
+  "down-left": "↙",
+  down: "↓",
+  "down-right": "↘",
+};
+
+const CHAIN_SHAPE_LABELS: Record<ChainShape, string> = {
+  snake: "Змейка",
+  spiral: "Спираль",
+};
+
+const MAX_CHAIN_OVERLAP = 3;
+
+const MODE_LABELS: Record<SearchMode, string> = {
+  greedy: "Быстрый (жадный)",
+  backtrack: "С перебором (максимум слов)",
+};
+
+const MIN_BUDGET_S = 1;
+const MAX_BUDGET_S = 60;
+
+type WeightKey = Exclude<keyof LayoutObjectives, "targetAspect">;
+
+const WEIGHT_LABELS: Record<WeightKey, { label: string; title: string }> = {
+  compactness: {
+    label: "Компактность",
+    title: "Меньше пустых клеток в прямоугольнике сетки",
+  },
+  aspectRatio: {
+    label: "Пропорции",
+    title: "Форма сетки ближе к выбранным пропорциям",
+  },
+  density: {
+    label: "Пересечения",
+    title: "Больше пересечений на слово",
+  },
+  balance: {
+    label: "Баланс →/↓",
+    title: "Поровну слов по горизонтали и по вертикали",
+  },
+};
+
+const MAX_WEIGHT = 5;
+
+const MAX_ALTERNATIVES = 12;
+
+const DEFAULT_MAX_SIZE = 15;
+const MIN_SIZE = 2;
+const MAX_SIZE = 50;
+
+/** Варианты целевых пропорций сетки (ширина / высота) */
+const ASPECT_PRESETS: { label: string; value: number }[] = [
+  { label: "Квадрат (1:1)", value: 1 },
+  { label: "A4 книжная", value: 210 / 297 },
+  { label: "A4 альбомная", value: 297 / 210 },
+];
+
+/** Настройки обычного кроссворда: поиск, размер сетки и цели раскладки */
+const FreeLayoutSettings: React.FC<
+  Omit<GenerationSettingsProps, "puzzle" | "onPuzzleChange">
+> = ({ value, onChange, disabled }) => {
+  const mode = value.mode ?? "greedy";
+  const budgetSeconds = Math.round((value.timeBudgetMs ?? 3000) / 1000);
+  const objectives = value.objectives ?? DEFAULT_OBJECTIVES;
+
+  const handleAlternativesChange = (text: string) => {
+    const count = Math.round(Number(text));
+    if (!Number.isFinite(count)) return;
+    onChange({
+      ...value,
+      alternatives: Math.min(MAX_ALTERNATIVES, Math.max(1, count)),
+    });
+  };
+
+  const sizeLimited =
+    value.maxWidth !== undefined || value.maxHeight !== undefined;
+
+  const toggleSizeLimit = (enabled: boolean) => {
+    onChange({
+      ...value,
+      maxWidth: enabled ? DEFAULT_MAX_SIZE : undefined,
+      maxHeight: enabled ? DEFAULT_MAX_SIZE : undefined,
+    });
+  };
+
+  const handleSizeChange = (field: "maxWidth" | "maxHeight", text: string) => {
+    const size = Math.round(Number(text));
+    if (!Number.isFinite(size)) return;
+    onChange({
+      ...value,
+      [field]: Math.min(MAX_SIZE, Math.max(MIN_SIZE, size)),
+    });
+  };
+
+  const updateObjectives = (patch: Partial<LayoutObjectives>) => {
+    onChange({ ...value, objectives: { ...objectives, ...patch } });
+  };
+
+  const handleBudgetChange = (text: string) => {
+    const seconds = Number(text);
+    if (!Number.isFinite(seconds)) return;
+    const clamped = Math.min(MAX_BUDGET_S, Math.max(MIN_BUDGET_S, seconds));
+    onChange({ ...value, timeBudgetMs: clamped * 1000 });
+  };
+
+  return (
+    <>
+      <label className="settings__field">
+        <span className="settings__label">Режим поиска</span>
+        <select
+          className="settings__control"
+          value={mode}
+          onChange={(e) =>
+            onChange({ ...value, mode: e.target.value as SearchMode })
+          }
+          disabled={disabled}
+        >
+          {(Object.keys(MODE_LABELS) as SearchMode[]).map((m) => (
+            <option key={m} value={m}>
+              {MODE_LABELS[m]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {mode === "backtrack" && (
+        <label className="settings__field">
+          <span className="settings__label">Лимит времени, с</span>
+          <input
+            className="settings__control settings__control--number"
+            type="number"
+            min={MIN_BUDGET_S}
+            max={MAX_BUDGET_S}
+            value={budgetSeconds}
+            onChange={(e) => handleBudgetChange(e.target.value)}
+            disabled={disabled}
+          />
+        </label>
+      )}
+
+      <p className="settings__hint">
+        {mode === "greedy"
+          ? "Несколько десятков случайных попыток — быстро, но часть слов может остаться неразмещённой."
+          : "Перебирает варианты с возвратом, пока не разместит все слова или не выйдет время."}
+      </p>
+
+      <label className="settings__field">
+        <span className="settings__label">Вариантов раскладки</span>
+        <input
+          className="settings__control settings__control--number"
+          type="number"
+          min={1}
+          max={MAX_ALTERNATIVES}
+          value={value.alternatives ?? 1}
+          onChange={(e) => handleAlternativesChange(e.target.value)}
+          disabled={disabled}
+        />
+      </label>
+
+      <h3 className="settings__subtitle">Форма сетки</h3>
+
+      <ShapeMaskSettings
+        value={value.mask}
+        onChange={(mask) => onChange({ ...value, mask })}
+        disabled={disabled}
+      />
+
+      {/* Фигура сама задаёт размер сетки */}
+      {!value.mask && (
+        <>
+          <h3 className="settings__subtitle">Размер сетки</h3>
+
+          <label className="settings__field">
+            <span className="settings__label">Ограничить размер</span>
+            <input
+              type="checkbox"
+              checked={sizeLimited}
+              onChange={(e) => toggleSizeLimit(e.target.checked)}
+              disabled={disabled}
+            />
+          </label>
+        </>
+      )}
+
+      {sizeLimited && !value.mask && (
+        <div className="settings__field">
+          <span className="settings__label">Не больше, клеток</span>
+          <span className="settings__size">
+            <input
+              className="settings__control settings__control--number"
+              type="number"
+              min={MIN_SIZE}
+              max={MAX_SIZE}
+              value={value.maxWidth ?? DEFAULT_MAX_SIZE}
+              onChange={(e) => handleSizeChange("maxWidth", e.target.value)}
+              disabled={disabled}
+              aria-label="Максимальная ширина"
+            />
+            ×
+            <input
+              className="settings__control settings__control--number"
+              type="number"
+              min={MIN_SIZE}
+              max={MAX_SIZE}
+              value={value.maxHeight ?? DEFAULT_MAX_SIZE}
+              onChange={(e) => handleSizeChange("maxHeight", e.target.value)}
+              disabled={disabled}
+              aria-label="Максимальная высота"
+            />
+          </span>
+        </div>
+      )}
+
+      <h3 className="settings__subtitle">Цели раскладки</h3>
+
+      {(Object.keys(WEIGHT_LABELS) as WeightKey[]).map((k) => (
+        <label
+          className="settings__field"
+          key={k}
+          title={WEIGHT_LABELS[k].title}
+        >
+          <span className="settings__label">{WEIGHT_LABELS[k].label}</span>
+          <input
+            className="settings__range"
+            type="range"
+            min={0}
+            max={MAX_WEIGHT}
+            step={0.5}
+            value={objectives[k]}
+            onChange={(e) => updateObjectives({ [k]: Number(e.target.value) })}
+            disabled={disabled}
+          />
+          <span className="settings__value">{objectives[k]}</span>
+        </label>
+      ))}
+
+      {objectives.aspectRatio > 0 && (
+        <label className="settings__field">
+          <span className="settings__label">Целевые пропорции</span>
+          <select
+            className="settings__control"
+            value={
+              ASPECT_PRESETS.find((p) => p.value === objectives.targetAspect)
+                ?.value ?? 1
+            }
+            onChange={(e) =>
+              updateObjectives({ targetAspect: Number(e.target.value) })
+            }
+            disabled={disabled}
+          >
+            {ASPECT_PRESETS.map((p) => (
+              <option key={p.label} value={p.value}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <button
+        className="btn btn--secondary btn--sm settings__reset"
+        onClick={() => onChange({ ...value, objectives: DEFAULT_OBJECTIVES })}
+        disabled={disabled}
+      >
+        Сбросить цели
+      </button>
+    </>
+  );
+};
+
+/** Настройки филворда: как идут слова и в каких направлениях */
+const FillwordSettings: React.FC<
+  Pick<GenerationSettingsProps, "puzzle" | "onPuzzleChange" | "disabled">
+> = ({ puzzle, onPuzzleChange, disabled }) => {
+  const toggleDirection = (direction: FillDirection) => {
+    const has = puzzle.fillDirections.includes(direction);
+    // Хотя бы одно направление должно остаться
+    if (has && puzzle.fillDirections.length === 1) return;
+    onPuzzleChange({
+      ...puzzle,
+      fillDirections: has
+        ? puzzle.fillDirections.filter((d) => d !== direction)
+        : [...puzzle.fillDirections, direction],
+    });
+  };
+
+  return (
+    <>
+      <label className="settings__field">
+        <span className="settings__label">Слова идут</span>
+        <select
+          className="settings__control"
+          value={puzzle.fillMode}
+          onChange={(e) =>
+            onPuzzleChange({
+              ...puzzle,
+              fillMode: e.target.value as FillwordMode,
+            })
+          }
+          disabled={disabled}
+        >
+          {(Object.keys(FILL_MODE_LABELS) as FillwordMode[]).map((m) => (
+            <option key={m} value={m}>
+              {FILL_MODE_LABELS[m]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {puzzle.fillMode === "straight" && (
+        <div className="settings__field">
+          <span className="settings__label">Направления</span>
+          <span className="settings__directions">
+            {FILL_DIRECTION_GRID.map((direction, i) =>
+              direction ? (
+                <button
+                  key={direction}
+                  type="button"
+                  className={`settings__direction ${puzzle.fillDirections.includes(direction) ? "settings__direction--active" : ""}`}
+                  onClick={() => toggleDirection(direction)}
+                  disabled={disabled}
+                  aria-pressed={puzzle.fillDirections.includes(direction)}
+                >
+                  {FILL_DIRECTION_ICONS[direction]}
+                </button>
+              ) : (
+                <span key={i} />
+              ),
+            )}
+          </span>
+        </div>
+      )}
+
+      <p className="settings__hint">
+        {puzzle.fillMode === "straight"
+          ? "Слова прячутся по прямым в выбранных направлениях и могут пересекаться. Остальные клетки заполняются случайными буквами."
+          : "Слова прячутся ломаными линиями по соседним клеткам и не пересекаются. Остальные клетки заполняются случайными буквами."}
+      </p>
+    </>
+  );
+};
+
+/**
+ * Настройки плотной сетки: шаблон с чёрными клетками и словарь,
+ * из которого заполняются места, не занятые словами из списка.
+ */
+const DenseTemplateSettings: React.FC<
+  Pick<GenerationSettingsProps, "puzzle" | "onPuzzleChange" | "disabled">
+> = ({ puzzle, onPuzzleChange, disabled }) => {
+  const { dense, dictionary } = puzzle;
+  const [loadError, setLoadError] = React.useState<string | null>(null);
+
+  const updateDense = (patch: Partial<DenseSettings>) =>
+    onPuzzleChange({ ...puzzle, dense: { ...dense, ...patch } });
+
+  const handleSizeChange = (field: "width" | "height", text: string) => {
+    const size = Math.round(Number(text));
+    if (!Number.isFinite(size)) return;
+    updateDense({
+      [field]: Math.min(MAX_DENSE_SIZE, Math.max(MIN_DENSE_SIZE, size)),
+    });
+  };
+
+  const handleDrawTemplate = () => {
+    const template = generateTemplate(
+      dense.width,
+      dense.height,
+      dense.symmetric,
+      createRandom(randomSeed()),
+    );
+    updateDense({ template: templateToText(template) });
+  };
+
+  const handleDictionaryFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const words = (await file.text())
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+      setLoadError(null);
+      onPuzzleChange({ ...puzzle, dictionary: { name: file.name, words } });
+    } catch (err) {
+      console.error("Ошибка чтения словаря:", err);
+      setLoadError("Не удалось прочитать файл словаря.");
+    }
+  };
+
+  return (
+    <>
+      <div className="settings__field">
+        <span className="settings__label">Размер, клеток</span>
+        <span className="settings__size">
+          <input
+            className="settings__control settings__control--number"
+            type="number"
+            min={MIN_DENSE_SIZE}
+            max={MAX_DENSE_SIZE}
+            value={dense.width}
+            onChange={(e) => handleSizeChange("width", e.target.value)}
+            disabled={disabled || dense.template !== ""}
+            aria-label="Ширина сетки"
+          />
+          ×
+          <input
+            className="settings__control settings__control--number"
+            type="number"
+            min={MIN_DENSE_SIZE}
+            max={MAX_DENSE_SIZE}
+            value={dense.height}
+            onChange={(e) => handleSizeChange("height", e.target.value)}
+            disabled={disabled || dense.template !== ""}
+            aria-label="Высота сетки"
+          />
+        </span>
+      </div>
+
+      <label className="settings__field">
+        <span className="settings__label">Симметрия при повороте</span>
+        <input
+          type="checkbox"
+          checked={dense.symmetric}
+          onChange={(e) => updateDense({ symmetric: e.target.checked })}
+          disabled={disabled}
+        />
+      </label>
+
+      <label className="settings__field settings__field--column">
+        <span className="settings__label">
+          Шаблон (# — чёрная клетка, . — буква)
+        </span>
+        <textarea
+          className="settings__control settings__template"
+          value={dense.template}
+          onChange={(e) => updateDense({ template: e.target.value })}
+          placeholder="Пусто — шаблон будет создан автоматически"
+          rows={Math.min(dense.height, 9)}
+          spellCheck={false}
+          disabled={disabled}
+        />
+      </label>
+
+      <div className="settings__buttons">
+        <button
+          className="btn btn--secondary btn--sm"
+          onClick={handleDrawTemplate}
+          disabled={disabled}
+        >
+          Создать шаблон
+        </button>
+        <button
+          className="btn btn--secondary btn--sm"
+          onClick={() => updateDense({ template: "" })}
+          disabled={disabled || dense.template === ""}
+        >
+          Очистить
+        </button>
+      </div>
+
+      <label className="settings__field settings__field--column">
+        <span className="settings__label">
+          Словарь (.txt, одно слово в строке)
+        </span>
+        <input
+          type="file"
+          accept=".txt,text/plain"
+          onChange={(e) => handleDictionaryFile(e.target.files?.[0])}
+          disabled={disabled}
+        />
+      </label>
+
+      <p className="settings__hint">
+        {loadError ??
+          (dictionary
+            ? `Загружен «${dictionary.name}»: ${dictionary.words.length} слов.`
+            : "Словарь не загружен.")}{" "}
+        Сначала в сетку ставятся слова из списка, остальные места заполняются
+        словами из словаря (без подсказок).
+      </p>
+    </>
+  );
+};
+
+/**
+ * Алфавит: какие буквы допустимы в словах и какие буквы считать одинаковыми.
+ * Действует на все типы головоломок.
+ */
+const AlphabetFields: React.FC<
+  Pick<GenerationSettingsProps, "puzzle" | "onPuzzleChange" | "disabled">
+> = ({ puzzle, onPuzzleChange, disabled }) => {
+  const { alphabet } = puzzle;
+  // При автоопределении язык ещё неизвестен — доступны все замены
+  const available = (profile: AlphabetId): LetterFolding[] =>
+    profile === "auto"
+      ? (Object.keys(LETTER_FOLDINGS) as LetterFolding[])
+      : ALPHABET_PROFILES[profile].foldings;
+
+  const handleProfileChange = (profile: AlphabetId) => {
+    // Замены, которых нет в новом алфавите, снимаются
+    onPuzzleChange({
+      ...puzzle,
+      alphabet: {
+        profile,
+        foldings: alphabet.foldings.filter((f) =>
+          available(profile).includes(f),
+        ),
+      },
+    });
+  };
+
+  const toggleFolding = (folding: LetterFolding, enabled: boolean) => {
+    onPuzzleChange({
+      ...puzzle,
+      alphabet: {
+        ...alphabet,
+        foldings: enabled
+          ? [...alphabet.foldings, folding]
+          : alphabet.foldings.filter((f) => f !== folding),
+      },
+    });
+  };
+
+  return (
+    <>
+      <label className="settings__field">
+        <span className="settings__label">Алфавит</span>
+        <select
+          className="settings__control"
+          value={alphabet.profile}
+          onChange={(e) => handleProfileChange(e.target.value as AlphabetId)}
+          disabled={disabled}
+        >
+          {(Object.keys(ALPHABET_LABELS) as AlphabetId[]).map((id) => (
+            <option key={id} value={id}>
+              {ALPHABET_LABELS[id]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {available(alphabet.profile).map((f) => (
+        <label
+          className="settings__field"
+          key={f}
+          title="Считать буквы одинаковыми: заменить при нормализации слов"
+        >
+          <span className="settings__label">{FOLDING_LABELS[f]}</span>
+          <input
+            type="checkbox"
+            checked={alphabet.foldings.includes(f)}
+            onChange={(e) => toggleFolding(f, e.target.checked)}
+            disabled={disabled}
+          />
+        </label>
+      ))}
+    </>
+  );
+};
+
+export const GenerationSettings: React.FC<GenerationSettingsProps> = ({
+  value,
+  onChange,
+  disabled,
+  puzzle,
+  onPuzzleChange,
+}) => {
+  return (
+    <details className="settings" open>
+      <summary className="settings__title">⚙️ Настройки генерации</summary>
+
+      <div className="settings__body">
+        <label className="settings__field">
+          <span className="settings__label">Тип</span>
+          <select
+            className="settings__control"
+            value={puzzle.kind}
+            onChange={(e) =>
+              onPuzzleChange({
+                ...puzzle,
+                kind: e.target.value as PuzzleKind,
+              })
+            }
+            disabled={disabled}
+          >
+            {(Object.keys(PUZZLE_LABELS) as PuzzleKind[]).map((k) => (
+              <option key={k} value={k}>
+                {PUZZLE_LABELS[k]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <AlphabetFields
+          puzzle={puzzle}
+          onPuzzleChange={onPuzzleChange}
+          disabled={disabled}
+        />
+
+        {puzzle.kind === "keyword" ? (
+          <>
+            <label className="settings__field">
+              <span className="settings__label">Ключевое слово</span>
+              <input
+                className="settings__control"
+                type="text"
+                value={puzzle.keyword}
+                onChange={(e) =>
+                  onPuzzleChange({ ...puzzle, keyword: e.target.value })
+                }
+                disabled={disabled}
+                spellCheck={false}
+              />
+            </label>
+            <p className="settings__hint">
+              Для каждой буквы ключевого слова подбирается слово из списка,
+              которое её содержит. Слова выстраиваются строками так, чтобы
+              ключевое слово читалось в выделенном столбце.
+            </p>
+          </>
+        ) : puzzle.kind === "chain" ? (
+          <>
+            <label className="settings__field">
+              <span className="settings__label">Форма</span>
+              <select
+                className="settings__control"
+                value={puzzle.chainShape}
+                onChange={(e) =>
+                  onPuzzleChange({
+                    ...puzzle,
+                    chainShape: e.target.value as ChainShape,
+                  })
+                }
+                disabled={disabled}
+              >
+                {(Object.keys(CHAIN_SHAPE_LABELS) as ChainShape[]).map((k) => (
+                  <option key={k} value={k}>
+                    {CHAIN_SHAPE_LABELS[k]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label
+              className="settings__field"
+              title="Сколько последних букв слова могут совпадать с первыми буквами следующего"
+            >
+              <span className="settings__label">Общих букв, не больше</span>
+              <input
+                className="settings__control settings__control--number"
+                type="number"
+                min={1}
+                max={MAX_CHAIN_OVERLAP}
+                value={puzzle.chainOverlap}
+                onChange={(e) => {
+                  const overlap = Math.round(Number(e.target.value));
+                  if (!Number.isFinite(overlap)) return;
+                  onPuzzleChange({
+                    ...puzzle,
+                    chainOverlap: Math.min(
+                      MAX_CHAIN_OVERLAP,
+                      Math.max(1, overlap),
+                    ),
+                  });
+                }}
+                disabled={disabled}
+              />
+            </label>
+            <p className="settings__hint">
+              Слова выстраиваются в цепочку: последняя буква слова — первая
+              буква следующего. Слова, которые не удалось сцепить, будут
+              перечислены под сеткой.
+            </p>
+          </>
+        ) : puzzle.kind === "scanword" ? (
+          <p className="settings__hint">
+            Вопросы пишутся прямо в сетке: в клетке перед каждым словом, слева
+            от слова по горизонтали и над словом по вертикали. Одна клетка может
+            вмещать два вопроса.
+          </p>
+        ) : puzzle.kind === "dense" ? (
+          <DenseTemplateSettings
+            puzzle={puzzle}
+            onPuzzleChange={onPuzzleChange}
+            disabled={disabled}
+          />
+        ) : puzzle.kind === "fillword" ? (
+          <FillwordSettings
+            puzzle={puzzle}
+            onPuzzleChange={onPuzzleChange}
+            disabled={disabled}
+          />
+        ) : (
+          <FreeLayoutSettings
+            value={value}
+            onChange={onChange}
+            disabled={disabled}
+          />
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default GenerationSettings;
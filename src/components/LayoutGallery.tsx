@@ -0,0 +1,78 @@
+import React from "react";
+import type { CrosswordResult } from "../engine/types";
+
+interface LayoutGalleryProps {
+  layouts: CrosswordResult[];
+  selected: CrosswordResult | null;
+  onSelect: (layout: CrosswordResult) => void;
+}
+
+/**
+ * Миниатюра раскладки: буквенные клетки без букв и номеров.
+ */
+const LayoutThumbnail: React.FC<{ layout: CrosswordResult }> = ({ layout }) => {
+  const { bounds } = layout;
+  const cells = Array.from(layout.grid.keys()).map((k) => {
+    const [x, y] = k.split(",").map(Number);
+    return { k, x: x - bounds.minX, y: y - bounds.minY };
+  });
+
+  return (
+    <svg
+      className="layout-gallery__thumb"
+      viewBox={`-0.5 -0.5 ${bounds.width + 1} ${bounds.height + 1}`}
+      preserveAspectRatio="xMidYMid meet"
+      aria-hidden="true"
+    >
+      {cells.map((c) => (
+        <rect
+          key={c.k}
+          x={c.x}
+          y={c.y}
+          width={1}
+          height={1}
+          className="layout-gallery__thumb-cell"
+        />
+      ))}
+    </svg>
+  );
+};
+
+export const LayoutGallery: React.FC<LayoutGalleryProps> = ({
+  layouts,
+  selected,
+  onSelect,
+}) => {
+  if (layouts.length < 2) return null;
+
+  return (
+    <div className="layout-gallery">
+      <h3 className="layout-gallery__title">
+        Варианты раскладки ({layouts.length})
+      </h3>
+      <div className="layout-gallery__list">
+        {layouts.map((layout, index) => {
+          const { metrics } = layout;
+          const isSelected = layout === selected;
+          return (
+            <button
+              key={index}
+              className={`layout-gallery__item ${isSelected ? "layout-gallery__item--selected" : ""}`}
+              onClick={() => onSelect(layout)}
+              aria-pressed={isSelected}
+              title={`Вариант ${index + 1}`}
+            >
+              <LayoutThumbnail layout={layout} />
+              <span className="layout-gallery__metrics">
+                {metrics.width}×{metrics.height} · {metrics.placed} сл. ·{" "}
+                {metrics.intersections} пересеч.
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LayoutGallery;
@@ -0,0 +1,359 @@
+import React, { useCallback, useEffect, useState } from "react";
+import type { PuzzleKind, WordEntry } from "../engine/types";
+import {
+  createWordList,
+  deleteWordList,
+  duplicateWordList,
+  loadWordLists,
+  matchesSearch,
+  saveWordList,
+  savedPuzzle,
+  type PuzzleSnapshot,
+  type SavedPuzzle,
+  type WordList,
+} from "../utils/library";
+
+interface LibraryProps {
+  /** Слова из панели ввода */
+  entries: WordEntry[];
+  /** Есть ли показанная головоломка, которую можно прикрепить к списку */
+  hasPuzzle: boolean;
+  /** Показанная головоломка; null — ещё не создана */
+  getSnapshot: () => PuzzleSnapshot | null;
+  /** Открытый список; null — работа ещё не сохранена */
+  listId: string | null;
+  onListIdChange: (id: string | null) => void;
+  /** Загрузить слова списка в панель ввода */
+  onOpenList: (list: WordList) => void;
+  /** Показать сохранённую головоломку так, как она была собрана */
+  onOpenPuzzle: (list: WordList, puzzle: SavedPuzzle) => void;
+}
+
+const KIND_LABELS: Record<PuzzleKind, string> = {
+  free: "Кроссворд",
+  keyword: "С ключевым словом",
+  chain: "Чайнворд",
+  fillword: "Филворд",
+  dense: "Плотная сетка",
+  scanword: "Сканворд",
+};
+
+const PLURAL_RULES = new Intl.PluralRules("ru-RU");
+
+/** «1 слово», «3 слова», «5 слов» */
+function plural(n: number, one: string, few: string, many: string): string {
+  const rule = PLURAL_RULES.select(n);
+  return `${n} ${rule === "one" ? one : rule === "few" ? few : many}`;
+}
+
+const DATE_FORMAT = new Intl.DateTimeFormat("ru-RU", {
+  day: "numeric",
+  month: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+interface SaveFormProps {
+  /** Открытый список; undefined — сохраняется новый */
+  list: WordList | undefined;
+  canAttach: boolean;
+  onSave: (
+    fields: Pick<WordList, "name" | "subject" | "grade">,
+    attach: boolean,
+    asNew: boolean,
+  ) => void;
+}
+
+/**
+ * Название и метки списка и кнопки сохранения. Поля заполняются из
+ * открытого списка, поэтому форма пересоздаётся, когда он меняется.
+ */
+const SaveForm: React.FC<SaveFormProps> = ({ list, canAttach, onSave }) => {
+  const [name, setName] = useState(list?.name ?? "");
+  const [subject, setSubject] = useState(list?.subject ?? "");
+  const [grade, setGrade] = useState(list?.grade ?? "");
+  const [attach, setAttach] = useState(true);
+  const fields = {
+    name: name.trim(),
+    subject: subject.trim(),
+    grade: grade.trim(),
+  };
+
+  return (
+    <>
+      <label className="settings__field">
+        <span className="settings__label">Название</span>
+        <input
+          className="settings__control library__name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Например, «Космос»"
+        />
+      </label>
+      <label className="settings__field">
+        <span className="settings__label">Предмет</span>
+        <input
+          className="settings__control library__name"
+          type="text"
+          value={subject}
+          onChange={(e) => setSubject(e.target.value)}
+          placeholder="Окружающий мир"
+        />
+      </label>
+      <label className="settings__field">
+        <span className="settings__label">Класс</span>
+        <input
+          className="settings__control settings__control--number"
+          type="text"
+          value={grade}
+          onChange={(e) => setGrade(e.target.value)}
+          placeholder="4"
+        />
+      </label>
+      {canAttach && (
+        <label className="settings__field">
+          <span className="settings__label">
+            Прикрепить показанную головоломку
+          </span>
+          <input
+            type="checkbox"
+            checked={attach}
+            onChange={(e) => setAttach(e.target.checked)}
+          />
+        </label>
+      )}
+      <div className="settings__buttons">
+        <button
+          className="btn btn--primary btn--sm"
+          onClick={() => onSave(fields, canAttach && attach, false)}
+          disabled={!fields.name}
+        >
+          💾 Сохранить
+        </button>
+        {list && (
+          <button
+            className="btn btn--secondary btn--sm"
+            onClick={() => onSave(fields, canAttach && attach, true)}
+            disabled={!fields.name}
+            title="Сохранить отдельным списком, не меняя открытый"
+          >
+            Сохранить как новый
+          </button>
+        )}
+      </div>
+    </>
+  );
+};
+
+/**
+ * Библиотека в IndexedDB: именованные списки слов с метками и
+ * прикреплёнными к ним головоломками. Списки можно искать, копировать,
+ * переименовывать и удалять.
+ */
+export const Library: React.FC<LibraryProps> = ({
+  entries,
+  hasPuzzle,
+  getSnapshot,
+  listId,
+  onListIdChange,
+  onOpenList,
+  onOpenPuzzle,
+}) => {
+  const [lists, setLists] = useState<WordList[]>([]);
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(
+    () =>
+      loadWordLists()
+        .then(setLists)
+        .catch((err) => {
+          console.error("Ошибка чтения библиотеки:", err);
+          setError("Библиотека недоступна: браузер не даёт хранить данные.");
+        }),
+    [],
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Сохранить и перечитать библиотеку
+  const store = async (list: WordList) => {
+    try {
+      await saveWordList(list);
+    } catch (err) {
+      console.error("Ошибка сохранения в библиотеку:", err);
+      alert("Не удалось сохранить в библиотеку.");
+    }
+    await refresh();
+  };
+
+  const openList = lists.find((l) => l.id === listId);
+
+  const handleSave = async (
+    fields: Pick<WordList, "name" | "subject" | "grade">,
+    attach: boolean,
+    asNew: boolean,
+  ) => {
+    const snapshot = attach ? getSnapshot() : null;
+    const base =
+      openList && !asNew
+        ? openList
+        : createWordList(fields.name, entries, fields);
+    const list: WordList = {
+      ...base,
+      ...fields,
+      entries,
+      puzzles: snapshot
+        ? [...base.puzzles, savedPuzzle(snapshot)]
+        : base.puzzles,
+      updatedAt: Date.now(),
+    };
+    await store(list);
+    onListIdChange(list.id);
+  };
+
+  const handleDuplicate = (list: WordList) =>
+    store(duplicateWordList(list, `${list.name} (копия)`));
+
+  const handleRename = (list: WordList) => {
+    const name = prompt("Новое название списка:", list.name)?.trim();
+    if (name) store({ ...list, name, updatedAt: Date.now() });
+  };
+
+  const handleDelete = async (list: WordList) => {
+    if (!confirm(`Удалить «${list.name}» вместе с головоломками?`)) return;
+    try {
+      await deleteWordList(list.id);
+    } catch (err) {
+      console.error("Ошибка удаления из библиотеки:", err);
+    }
+    if (list.id === listId) onListIdChange(null);
+    await refresh();
+  };
+
+  const handleRemovePuzzle = (list: WordList, puzzle: SavedPuzzle) =>
+    store({ ...list, puzzles: list.puzzles.filter((p) => p !== puzzle) });
+
+  const found = lists.filter((l) => matchesSearch(l, query));
+
+  return (
+    <details className="settings library">
+      <summary className="settings__title">📚 Библиотека</summary>
+      <div className="settings__body">
+        {error ? (
+          <p className="settings__hint">{error}</p>
+        ) : (
+          <>
+            <SaveForm
+              key={openList ? `${openList.id}-${openList.updatedAt}` : "new"}
+              list={openList}
+              canAttach={hasPuzzle}
+              onSave={handleSave}
+            />
+
+            {lists.length > 0 && (
+              <input
+                className="settings__control"
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Поиск по названию, предмету, классу или слову"
+              />
+            )}
+
+            <ul className="library__lists">
+              {found.map((list) => (
+                <li
+                  key={list.id}
+                  className={`library__list ${list.id === listId ? "library__list--open" : ""}`}
+                >
+                  <div className="library__list-head">
+                    <button
+                      className="library__list-name"
+                      onClick={() => onOpenList(list)}
+                      title="Загрузить слова в панель ввода"
+                    >
+                      {list.name}
+                    </button>
+                    <button
+                      className="library__action"
+                      onClick={() => handleDuplicate(list)}
+                      title="Копия"
+                    >
+                      ⧉
+                    </button>
+                    <button
+                      className="library__action"
+                      onClick={() => handleRename(list)}
+                      title="Переименовать"
+                    >
+                      ✎
+                    </button>
+                    <button
+                      className="library__action"
+                      onClick={() => handleDelete(list)}
+                      title="Удалить"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  <div className="library__meta">
+                    {list.subject && (
+                      <span className="library__tag">{list.subject}</span>
+                    )}
+                    {list.grade && (
+                      <span className="library__tag">{list.grade} класс</span>
+                    )}
+                    <span>
+                      {plural(list.entries.length, "слово", "слова", "слов")}
+                      {list.puzzles.length > 0 &&
+                        ` · ${plural(list.puzzles.length, "головоломка", "головоломки", "головоломок")}`}
+                    </span>
+                  </div>
+                  {list.puzzles.length > 0 && (
+                    <ul className="library__puzzles">
+                      {list.puzzles.map((p) => (
+                        <li key={p.id} className="library__puzzle">
+                          <button
+                            className="library__puzzle-open"
+                            onClick={() => onOpenPuzzle(list, p)}
+                            title="Открыть головоломку как сохранена"
+                          >
+                            🧩 {KIND_LABELS[p.puzzle.kind]} ·{" "}
+                            {DATE_FORMAT.format(p.savedAt)}
+                          </button>
+                          <button
+                            className="library__action"
+                            onClick={() => handleRemovePuzzle(list, p)}
+                            title="Убрать головоломку из списка"
+                          >
+                            ✕
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <p className="settings__hint">
+              {lists.length === 0
+                ? "Сохранённых списков пока нет."
+                : found.length === 0
+                  ? "Ничего не найдено."
+                  : "Щелчок по названию загружает слова, по головоломке — открывает её."}{" "}
+              Несохранённая работа сохраняется сама и предлагается к
+              восстановлению при следующем запуске.
+            </p>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default Library;
@@ -0,0 +1,157 @@
+import React, { useRef } from "react";
+import type { MaskShape, ShapeMask } from "../engine/types";
+import { DEFAULT_MASK_SIZE, builtInMask, resizeMask } from "../engine/mask";
+
+interface ShapeMaskSettingsProps {
+  /** undefined — кроссворд без фигуры */
+  value: ShapeMask | undefined;
+  onChange: (value: ShapeMask | undefined) => void;
+  disabled: boolean;
+}
+
+const SHAPE_LABELS: Record<MaskShape, string> = {
+  heart: "Сердце",
+  star: "Звезда",
+  tree: "Ёлка",
+  custom: "Своя (нарисовать)",
+};
+
+const MIN_MASK_SIZE = 7;
+const MAX_MASK_SIZE = 25;
+
+/**
+ * Выбор фигуры, в которую вписывается кроссворд: готовая фигура или
+ * нарисованная на клетчатом холсте. Своя фигура рисуется протягиванием
+ * мыши: первая клетка решает, закрашивать или стирать.
+ */
+export const ShapeMaskSettings: React.FC<ShapeMaskSettingsProps> = ({
+  value,
+  onChange,
+  disabled,
+}) => {
+  // true — закрашиваем, false — стираем, null — кнопка мыши отпущена
+  const paintRef = useRef<boolean | null>(null);
+  const size = value?.width ?? DEFAULT_MASK_SIZE;
+
+  const handleShapeChange = (shape: MaskShape | "") => {
+    if (!shape) {
+      onChange(undefined);
+    } else if (shape === "custom") {
+      // Своя фигура начинается с текущей, чтобы её можно было подправить
+      onChange(value ? { ...value, shape } : builtInMask(shape, size));
+    } else {
+      onChange(builtInMask(shape, size));
+    }
+  };
+
+  const handleSizeChange = (text: string) => {
+    if (!value) return;
+    const next = Math.round(Number(text));
+    if (!Number.isFinite(next)) return;
+    const clamped = Math.min(MAX_MASK_SIZE, Math.max(MIN_MASK_SIZE, next));
+    onChange(
+      value.shape === "custom"
+        ? resizeMask(value, clamped)
+        : builtInMask(value.shape, clamped),
+    );
+  };
+
+  const paint = (k: string, fill: boolean) => {
+    if (!value || value.cells.includes(k) === fill) return;
+    onChange({
+      ...value,
+      cells: fill ? [...value.cells, k] : value.cells.filter((c) => c !== k),
+    });
+  };
+
+  const editable = value?.shape === "custom" && !disabled;
+  const cells = new Set(value?.cells ?? []);
+
+  return (
+    <>
+      <label className="settings__field">
+        <span className="settings__label">Фигура</span>
+        <select
+          className="settings__control"
+          value={value?.shape ?? ""}
+          onChange={(e) => handleShapeChange(e.target.value as MaskShape | "")}
+          disabled={disabled}
+        >
+          <option value="">Без фигуры</option>
+          {(Object.keys(SHAPE_LABELS) as MaskShape[]).map((s) => (
+            <option key={s} value={s}>
+              {SHAPE_LABELS[s]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {value && (
+        <>
+          <label className="settings__field">
+            <span className="settings__label">Размер, клеток</span>
+            <input
+              className="settings__control settings__control--number"
+              type="number"
+              min={MIN_MASK_SIZE}
+              max={MAX_MASK_SIZE}
+              value={size}
+              onChange={(e) => handleSizeChange(e.target.value)}
+              disabled={disabled}
+            />
+          </label>
+
+          <div
+            className={`mask-canvas ${editable ? "mask-canvas--editable" : ""}`}
+            style={{ gridTemplateColumns: `repeat(${value.width}, 1fr)` }}
+            onPointerUp={() => (paintRef.current = null)}
+            onPointerLeave={() => (paintRef.current = null)}
+          >
+            {Array.from({ length: value.width * value.height }, (_, i) => {
+              const k = `${i % value.width},${Math.floor(i / value.width)}`;
+              const inside = cells.has(k);
+              return (
+                <div
+                  key={k}
+                  className={`mask-canvas__cell ${inside ? "mask-canvas__cell--inside" : ""}`}
+                  onPointerDown={(e) => {
+                    if (!editable) return;
+                    // Иначе на сенсорном экране протягивание захватит первая клетка
+                    e.currentTarget.releasePointerCapture(e.pointerId);
+                    paintRef.current = !inside;
+                    paint(k, !inside);
+                  }}
+                  onPointerEnter={() => {
+                    if (editable && paintRef.current !== null) {
+                      paint(k, paintRef.current);
+                    }
+                  }}
+                />
+              );
+            })}
+          </div>
+
+          {editable && (
+            <div className="settings__buttons">
+              <button
+                className="btn btn--secondary btn--sm"
+                onClick={() => onChange({ ...value, cells: [] })}
+              >
+                Очистить
+              </button>
+            </div>
+          )}
+
+          <p className="settings__hint">
+            Слова ставятся только в клетки фигуры, а раскладка старается
+            заполнить её целиком. Контур фигуры виден под сеткой и в DOCX.
+            {value.shape === "custom" &&
+              " Закрашивайте клетки, протягивая мышь; если начать с закрашенной клетки, мышь стирает."}
+          </p>
+        </>
+      )}
+    </>
+  );
+};
+
+export default ShapeMaskSettings;
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from "react";
+import type { WordEntry } from "../engine/types";
+import {
+  decodeTable,
+  detectDelimiter,
+  detectEncoding,
+  parseDelimited,
+  rowsToEntries,
+  type TableDelimiter,
+  type TableEncoding,
+} from "../utils/wordTable";
+
+interface TableImportProps {
+  file: File;
+  /** append — добавить слова к списку, а не заменить его */
+  onImport: (entries: WordEntry[], append: boolean) => void;
+  onCancel: () => void;
+}
+
+const ENCODING_LABELS: Record<TableEncoding, string> = {
+  "utf-8": "UTF-8",
+  "windows-1251": "Windows-1251",
+};
+
+const DELIMITER_LABELS: Record<TableDelimiter, string> = {
+  ";": "Точка с запятой",
+  ",": "Запятая",
+  "\t": "Табуляция",
+};
+
+/** Сколько записей показать в предпросмотре */
+const PREVIEW_ROWS = 5;
+
+/** Первая строка похожа на заголовки, если в ней есть такие слова */
+const HEADER_PATTERN = /слов|ответ|подсказ|вопрос|word|answer|clue/i;
+
+/**
+ * Сопоставление столбцов при импорте CSV/TSV: какой столбец — слова, какой —
+ * подсказки, есть ли строка заголовков и в какой кодировке файл. Кодировка,
+ * разделитель и заголовки угадываются; выбор пользователя их перекрывает.
+ */
+export const TableImport: React.FC<TableImportProps> = ({
+  file,
+  onImport,
+  onCancel,
+}) => {
+  const [bytes, setBytes] = useState<ArrayBuffer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [chosenEncoding, setEncoding] = useState<TableEncoding | null>(null);
+  const [chosenDelimiter, setDelimiter] = useState<TableDelimiter | null>(null);
+  const [chosenHeader, setHeader] = useState<boolean | null>(null);
+  const [wordColumn, setWordColumn] = useState(0);
+  const [chosenClueColumn, setClueColumn] = useState<number | null | "auto">(
+    "auto",
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    file
+      .arrayBuffer()
+      .then((buffer) => {
+        if (!cancelled) setBytes(buffer);
+      })
+      .catch((err) => {
+        console.error("Ошибка чтения таблицы:", err);
+        if (!cancelled) setError(`Не удалось прочитать «${file.name}».`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  if (!bytes) {
+    return (
+      <div className="table-import">
+        <p className="settings__hint">{error ?? `Чтение «${file.name}»…`}</p>
+        <div className="settings__buttons">
+          <button className="btn btn--secondary btn--sm" onClick={onCancel}>
+            Отмена
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const encoding = chosenEncoding ?? detectEncoding(bytes);
+  const text = decodeTable(bytes, encoding);
+  const delimiter = chosenDelimiter ?? detectDelimiter(text);
+  const rows = parseDelimited(text, delimiter);
+  const columns = Math.max(1, ...rows.map((r) => r.length));
+  const header =
+    chosenHeader ?? rows[0]?.some((cell) => HEADER_PATTERN.test(cell)) ?? false;
+  const clueColumn =
+    chosenClueColumn === "auto"
+      ? columns > 1
+        ? wordColumn === 0
+          ? 1
+          : 0
+        : null
+      : chosenClueColumn;
+  const entries = rowsToEntries(rows, { wordColumn, clueColumn, header });
+
+  // Подпись столбца: заголовок или первое значение
+  const columnLabel = (i: number) => {
+    const sample = rows[0]?.[i]?.trim();
+    return sample ? `${i + 1}: ${sample}` : `Столбец ${i + 1}`;
+  };
+  const columnOptions = Array.from({ length: columns }, (_, i) => (
+    <option key={i} value={i}>
+      {columnLabel(i)}
+    </option>
+  ));
+
+  return (
+    <div className="table-import">
+      <h3 className="table-import__title">📂 {file.name}</h3>
+
+      <label className="settings__field">
+        <span className="settings__label">Кодировка</span>
+        <select
+          className="settings__control"
+          value={encoding}
+          onChange={(e) => setEncoding(e.target.value as TableEncoding)}
+        >
+          {(Object.keys(ENCODING_LABELS) as TableEncoding[]).map((enc) => (
+            <option key={enc} value={enc}>
+              {ENCODING_LABELS[enc]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="settings__field">
+        <span className="settings__label">Разделитель</span>
+        <select
+          className="settings__control"
+          value={delimiter}
+          onChange={(e) => setDelimiter(e.target.value as TableDelimiter)}
+        >
+          {(Object.keys(DELIMITER_LABELS) as TableDelimiter[]).map((d) => (
+            <option key={d} value={d}>
+              {DELIMITER_LABELS[d]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="settings__field">
+        <span className="settings__label">Первая строка — заголовки</span>
+        <input
+          type="checkbox"
+          checked={header}
+          onChange={(e) => setHeader(e.target.checked)}
+        />
+      </label>
+
+      <label className="settings__field">
+        <span className="settings__label">Слова</span>
+        <select
+          className="settings__control table-import__column"
+          value={wordColumn}
+          onChange={(e) => setWordColumn(Number(e.target.value))}
+        >
+          {columnOptions}
+        </select>
+      </label>
+
+      <label className="settings__field">
+        <span className="settings__label">Подсказки</span>
+        <select
+          className="settings__control table-import__column"
+          value={clueColumn ?? "none"}
+          onChange={(e) =>
+            setClueColumn(
+              e.target.value === "none" ? null : Number(e.target.value),
+            )
+          }
+        >
+          <option value="none">Без подсказок</option>
+          {columnOptions}
+        </select>
+      </label>
+
+      {entries.length > 0 ? (
+        <table className="table-import__preview">
+          <tbody>
+            {entries.slice(0, PREVIEW_ROWS).map((e, i) => (
+              <tr key={i}>
+                <td className="table-import__preview-word">{e.word}</td>
+                <td>{e.clue}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="settings__hint">
+          В выбранном столбце нет слов — проверьте кодировку и разделитель.
+        </p>
+      )}
+      <p className="settings__hint">
+        Найдено записей: {entries.length}
+        {entries.length > PREVIEW_ROWS && `, показаны первые ${PREVIEW_ROWS}`}.
+      </p>
+
+      <div className="settings__buttons">
+        <button
+          className="btn btn--primary btn--sm"
+          onClick={() => onImport(entries, false)}
+          disabled={entries.length === 0}
+        >
+          Заменить список
+        </button>
+        <button
+          className="btn btn--secondary btn--sm"
+          onClick={() => onImport(entries, true)}
+          disabled={entries.length === 0}
+        >
+          Добавить к списку
+        </button>
+        <button className="btn btn--secondary btn--sm" onClick={onCancel}>
+          Отмена
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TableImport;
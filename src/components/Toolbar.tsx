@@ -1,32 +1,107 @@
 import React from "react";
-import type { CrosswordResult } from "../engine/types";
-import { exportCrosswordDocx } from "../utils/exportDocx";
+import type { SearchSummary } from "../engine/types";
+import { parseSeed } from "../engine/random";
+import { PROJECT_EXTENSION, ProjectFileError } from "../utils/project";
 
 interface ToolbarProps {
-  result: CrosswordResult | null;
+  /** Сид и итог поиска показанной головоломки; null — головоломки нет */
+  puzzle: { seed: number; search: SearchSummary } | null;
   filled: boolean;
   onToggleFilled: () => void;
   onRegenerate: () => void;
+  onRebuild: (seed: number) => void;
+  /** Экспорт показанной головоломки в DOCX */
+  onExport: (filled: boolean) => Promise<void>;
+  /** Сохранить показанную головоломку файлом проекта */
+  onSaveProject: () => void;
+  /** Открыть файл проекта; ошибки формата — ProjectFileError */
+  onOpenProject: (file: File) => Promise<void>;
+  /** Открыть головоломку, вложенную в экспортированный DOCX */
+  onOpenDocx: (file: File) => Promise<void>;
 }
 
+interface SeedFieldProps {
+  seed: number;
+  disabled: boolean;
+  onRebuild: (seed: number) => void;
+}
+
+/**
+ * Поле сида: показывает сид текущего кроссворда и позволяет
+ * пересобрать кроссворд по введённому сиду.
+ */
+const SeedField: React.FC<SeedFieldProps> = ({ seed, disabled, onRebuild }) => {
+  const [text, setText] = React.useState(String(seed));
+  const parsed = parseSeed(text);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (parsed !== null) onRebuild(parsed);
+  };
+
+  return (
+    <form className="toolbar__seed" onSubmit={handleSubmit}>
+      <label className="toolbar__seed-label" htmlFor="toolbar-seed">
+        Сид
+      </label>
+      <input
+        id="toolbar-seed"
+        className={`toolbar__seed-input ${parsed === null ? "toolbar__seed-input--invalid" : ""}`}
+        type="text"
+        inputMode="numeric"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        spellCheck={false}
+        autoComplete="off"
+        title="Одинаковые слова и сид дают одинаковый кроссворд"
+      />
+      <button
+        className="btn btn--secondary btn--sm"
+        type="submit"
+        disabled={disabled || parsed === null}
+        title="Собрать кроссворд с этим сидом"
+      >
+        ↻ Собрать
+      </button>
+    </form>
+  );
+};
+
 export const Toolbar: React.FC<ToolbarProps> = ({
-  result,
+  puzzle,
   filled,
   onToggleFilled,
   onRegenerate,
+  onRebuild,
+  onExport,
+  onSaveProject,
+  onOpenProject,
+  onOpenDocx,
 }) => {
   const [exporting, setExporting] = React.useState(false);
+  const projectInputRef = React.useRef<HTMLInputElement>(null);
+  const docxInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleOpen = async (
+    file: File | undefined,
+    open: (file: File) => Promise<void>,
+  ) => {
+    if (!file) return;
+    try {
+      await open(file);
+    } catch (err) {
+      console.error("Ошибка открытия проекта:", err);
+      const reason =
+        err instanceof ProjectFileError ? err.message : "Файл не читается.";
+      alert(`Не удалось открыть «${file.name}».\n\n${reason}`);
+    }
+  };
 
   const handleExport = async (exportFilled: boolean) => {
-    if (!result || result.words.length === 0) return;
+    if (!puzzle) return;
     setExporting(true);
     try {
-      const suffix = exportFilled ? "ответы" : "кроссворд";
-      await exportCrosswordDocx(
-        result,
-        exportFilled,
-        `кроссворд-${suffix}.docx`,
-      );
+      await onExport(exportFilled);
     } catch (err) {
       console.error("Ошибка экспорта:", err);
       alert("Не удалось экспортировать DOCX. Подробности в консоли.");
@@ -35,7 +110,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     }
   };
 
-  const hasResult = result !== null && result.words.length > 0;
+  const hasResult = puzzle !== null;
 
   return (
     <div className="toolbar">
@@ -57,9 +132,78 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         >
           {filled ? "🔤 С ответами" : "⬜ Без ответов"}
         </button>
+
+        {puzzle && (
+          <span
+            className={`toolbar__status ${puzzle.search.optimal ? "toolbar__status--optimal" : ""}`}
+            title={
+              puzzle.search.optimal
+                ? "Больше слов разместить невозможно"
+                : "Возможно, существует раскладка с большим числом слов"
+            }
+          >
+            {puzzle.search.optimal
+              ? "✔ Оптимально"
+              : puzzle.search.mode === "backtrack"
+                ? "⏱ Лучшее за отведённое время"
+                : "Лучшее из попыток"}
+          </span>
+        )}
+
+        {puzzle && (
+          <SeedField
+            key={puzzle.seed}
+            seed={puzzle.seed}
+            disabled={!hasResult}
+            onRebuild={onRebuild}
+          />
+        )}
       </div>
 
       <div className="toolbar__group">
+        <input
+          ref={projectInputRef}
+          type="file"
+          accept={`${PROJECT_EXTENSION},.json,application/json`}
+          hidden
+          onChange={(e) => {
+            handleOpen(e.target.files?.[0], onOpenProject);
+            e.target.value = "";
+          }}
+        />
+        <input
+          ref={docxInputRef}
+          type="file"
+          accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+          hidden
+          onChange={(e) => {
+            handleOpen(e.target.files?.[0], onOpenDocx);
+            e.target.value = "";
+          }}
+        />
+        <button
+          className="btn btn--outline"
+          onClick={() => projectInputRef.current?.click()}
+          title="Открыть проект CrossExpo (.crossexpo.json)"
+        >
+          📂 Открыть проект
+        </button>
+        <button
+          className="btn btn--outline"
+          onClick={() => docxInputRef.current?.click()}
+          title="Открыть головоломку из DOCX, экспортированного CrossExpo"
+        >
+          📂 Открыть DOCX
+        </button>
+        <button
+          className="btn btn--outline"
+          onClick={onSaveProject}
+          disabled={!hasResult}
+          title="Сохранить слова, раскладку и настройки, чтобы продолжить работу или передать коллеге"
+        >
+          💾 Сохранить проект
+        </button>
+
         <button
           className="btn btn--secondary"
           onClick={() => handleExport(false)}
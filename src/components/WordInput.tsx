@@ -1,9 +1,45 @@
-import React, { useState, useCallback, useRef } from "react";
-import type { WordEntry } from "../engine/types";
+import React, { useState, useCallback, useRef, useEffect } from "react";
+import type {
+  AlphabetSettings,
+  Direction,
+  GenerationProgress,
+  PuzzleKind,
+  WordEntry,
+  WordPin,
+} from "../engine/types";
+import { resolveAlphabet } from "../engine/alphabet";
+import {
+  BLOCKING_ISSUES,
+  checkEntries,
+  type EntryIssue,
+  type EntryIssueKind,
+} from "../engine/validate";
+import { TableImport } from "./TableImport";
+import {
+  TABLE_FILE_ACCEPT,
+  exportWordTable,
+  parseDelimited,
+} from "../utils/wordTable";
 
 interface WordInputProps {
   onGenerate: (entries: WordEntry[]) => void;
+  /** Внести правки списка в готовый кроссворд (нет — обновлять нечего) */
+  onUpdate?: (entries: WordEntry[]) => void;
+  onCancel: () => void;
   isGenerating: boolean;
+  /** Прогресс текущей генерации (null — генерация ещё не отчиталась) */
+  progress: GenerationProgress | null;
+  /** Алфавит и вид головоломки — по ним проверяется список */
+  alphabet: AlphabetSettings;
+  puzzleKind: PuzzleKind;
+  /** Список, с которого начинается таблица (панель пересоздаётся ради него) */
+  initialEntries?: WordEntry[];
+  /** Сообщать о каждой правке списка: непустые строки */
+  onEntriesChange?: (entries: WordEntry[]) => void;
+  /** Файл, брошенный на боковую панель: его нужно импортировать */
+  droppedFile?: File | null;
+  /** Импорт брошенного файла завершён или отменён */
+  onDroppedFileDone?: () => void;
 }
 
 type InputMode = "table" | "text";
@@ -53,7 +89,8 @@ function entriesToText(entries: WordEntry[]): string {
 /**
  * Распарсить текст в массив WordEntry.
  * Формат каждой строки: «слово» или «слово - подсказка».
- * Разделитель — первое вхождение « - » (пробел-тире-пробел).
+ * Разделитель — первое вхождение « - » (пробел-тире-пробел) или табуляция,
+ * как в строках, скопированных из Excel и Google Таблиц.
  */
 function textToEntries(text: string): WordEntry[] {
   const lines = text.split("\n");
@@ -63,8 +100,13 @@ function textToEntries(text: string): WordEntry[] {
     const line = raw.trim();
     if (line.length === 0) continue;
 
+    const tabIndex = line.indexOf("\t");
     const separatorIndex = line.indexOf(SEPARATOR);
-    if (separatorIndex !== -1) {
+    if (tabIndex !== -1) {
+      const word = line.substring(0, tabIndex).trim();
+      const clue = line.substring(tabIndex + 1).trim();
+      entries.push({ word, clue });
+    } else if (separatorIndex !== -1) {
       const word = line.substring(0, separatorIndex).trim();
       const clue = line.substring(separatorIndex + SEPARATOR.length).trim();
       entries.push({ word, clue });
@@ -76,6 +118,176 @@ function textToEntries(text: string): WordEntry[] {
   return entries;
 }
 
+/**
+ * Доля выполненной работы: попытки жадного поиска или время перебора.
+ */
+function progressFraction(progress: GenerationProgress | null): number {
+  if (!progress) return 0;
+  if (progress.elapsedMs !== undefined && progress.timeBudgetMs) {
+    return Math.min(1, progress.elapsedMs / progress.timeBudgetMs);
+  }
+  return progress.attempt / progress.totalAttempts;
+}
+
+function progressLabel(progress: GenerationProgress | null): string {
+  if (!progress) return "Генерация…";
+  const placed = `размещено ${progress.bestPlaced} из ${progress.totalWords}`;
+  if (progress.elapsedMs !== undefined && progress.timeBudgetMs) {
+    const elapsed = (progress.elapsedMs / 1000).toFixed(1);
+    const budget = (progress.timeBudgetMs / 1000).toFixed(0);
+    return `Перебор: ${elapsed} из ${budget} с · ${placed}`;
+  }
+  return `Попытка ${progress.attempt} из ${progress.totalAttempts} · ${placed}`;
+}
+
+/**
+ * Виды головоломок, в которых слово без общих букв выпадает. В плотной
+ * сетке пересечения задаёт шаблон, а не общие буквы слов списка.
+ */
+const CROSSING_KINDS: ReadonlySet<PuzzleKind> = new Set<PuzzleKind>([
+  "free",
+  "scanword",
+]);
+
+const ISSUE_SUMMARY: Record<EntryIssueKind, string> = {
+  duplicate: "Повторы",
+  "too-short": "Короче 2 букв",
+  stripped: "Лишние знаки",
+  "no-clue": "Без подсказки",
+  "no-shared-letters": "Нет общих букв с другими словами",
+};
+
+/** Текст значка у строки с проблемой */
+function issueBadge(issue: EntryIssue, rows: WordEntry[]): string {
+  switch (issue.kind) {
+    case "duplicate":
+      return `Повторяет «${rows[issue.duplicateOf ?? 0].word.trim()}»`;
+    case "stripped": {
+      const characters = issue.characters ?? [];
+      const verb = characters.length > 1 ? "не войдут" : "не войдёт";
+      return `${characters.map((c) => `«${c}»`).join(" ")} ${verb} в сетку`;
+    }
+    default:
+      return ISSUE_SUMMARY[issue.kind];
+  }
+}
+
+/** Сколько слов перечислить в сводке по одной проблеме */
+const SUMMARY_WORDS = 4;
+
+const DIRECTION_ICONS: Record<Direction, string> = {
+  across: "→",
+  down: "↓",
+};
+
+function pinIcon(pin: WordPin | undefined): string {
+  if (!pin) return "📌";
+  return pin.position
+    ? `${DIRECTION_ICONS[pin.direction]}•`
+    : DIRECTION_ICONS[pin.direction];
+}
+
+function pinTitle(pin: WordPin | undefined): string {
+  if (!pin) return "Закрепить направление или позицию слова";
+  const direction =
+    pin.direction === "across" ? "по горизонтали" : "по вертикали";
+  if (!pin.position) return `Закреплено ${direction}`;
+  if (pin.position === "centre") return `Закреплено ${direction}, в центре`;
+  return `Закреплено ${direction}, начало в (${pin.position.x}, ${pin.position.y})`;
+}
+
+type PinPositionMode = "any" | "centre" | "point";
+
+interface PinEditorProps {
+  pin: WordPin | undefined;
+  onChange: (pin: WordPin | undefined) => void;
+}
+
+/**
+ * Редактор закрепления слова: направление и, при желании, позиция
+ * (в центре или в клетке с координатами относительно центра).
+ */
+const PinEditor: React.FC<PinEditorProps> = ({ pin, onChange }) => {
+  const positionMode: PinPositionMode = !pin?.position
+    ? "any"
+    : pin.position === "centre"
+      ? "centre"
+      : "point";
+  const point =
+    pin?.position && pin.position !== "centre" ? pin.position : { x: 0, y: 0 };
+
+  const setDirection = (value: string) => {
+    if (value === "none") {
+      onChange(undefined);
+    } else {
+      onChange({ ...pin, direction: value as Direction });
+    }
+  };
+
+  const setPositionMode = (mode: PinPositionMode) => {
+    if (!pin) return;
+    const position =
+      mode === "any" ? undefined : mode === "centre" ? "centre" : point;
+    onChange({ direction: pin.direction, position });
+  };
+
+  const setCoordinate = (axis: "x" | "y", text: string) => {
+    if (!pin) return;
+    const value = Math.round(Number(text));
+    if (!Number.isFinite(value)) return;
+    onChange({ ...pin, position: { ...point, [axis]: value } });
+  };
+
+  return (
+    <div className="word-input__pin-editor">
+      <select
+        className="word-input__pin-control"
+        value={pin?.direction ?? "none"}
+        onChange={(e) => setDirection(e.target.value)}
+        aria-label="Направление"
+      >
+        <option value="none">Не закреплено</option>
+        <option value="across">→ По горизонтали</option>
+        <option value="down">↓ По вертикали</option>
+      </select>
+      <select
+        className="word-input__pin-control"
+        value={positionMode}
+        onChange={(e) => setPositionMode(e.target.value as PinPositionMode)}
+        disabled={!pin}
+        aria-label="Позиция"
+      >
+        <option value="any">Позиция любая</option>
+        <option value="centre">В центре</option>
+        <option value="point">В клетке…</option>
+      </select>
+      {positionMode === "point" && (
+        <span
+          className="word-input__pin-point"
+          title="Клетка начала слова; (0, 0) — центр кроссворда"
+        >
+          x
+          <input
+            className="word-input__pin-control word-input__pin-control--number"
+            type="number"
+            value={point.x}
+            onChange={(e) => setCoordinate("x", e.target.value)}
+            aria-label="Столбец начала слова"
+          />
+          y
+          <input
+            className="word-input__pin-control word-input__pin-control--number"
+            type="number"
+            value={point.y}
+            onChange={(e) => setCoordinate("y", e.target.value)}
+            aria-label="Строка начала слова"
+          />
+        </span>
+      )}
+    </div>
+  );
+};
+
 function pluralWords(n: number): string {
   const mod10 = n % 10;
   const mod100 = n % 100;
@@ -86,12 +298,23 @@ function pluralWords(n: number): string {
 
 export const WordInput: React.FC<WordInputProps> = ({
   onGenerate,
+  onUpdate,
+  onCancel,
   isGenerating,
+  progress,
+  alphabet,
+  puzzleKind,
+  initialEntries = [],
+  onEntriesChange,
+  droppedFile,
+  onDroppedFileDone,
 }) => {
   const [mode, setMode] = useState<InputMode>("table");
-  const [entries, setEntries] = useState<WordEntry[]>([
-    { ...EMPTY_ROW },
-    { ...EMPTY_ROW },
+  const [entries, setEntries] = useState<WordEntry[]>(() => [
+    ...initialEntries,
+    ...Array.from({ length: Math.max(0, 2 - initialEntries.length) }, () => ({
+      ...EMPTY_ROW,
+    })),
   ]);
   const [text, setText] = useState("");
 
@@ -108,8 +331,16 @@ export const WordInput: React.FC<WordInputProps> = ({
         // Таблица → Текст
         setText(entriesToText(entries));
       } else {
-        // Текст → Таблица
-        const parsed = textToEntries(text);
+        // Текст → Таблица; закрепления сохраняются для тех же слов
+        const pins = new Map(
+          entries
+            .filter((e) => e.pin)
+            .map((e) => [e.word.trim().toUpperCase(), e.pin]),
+        );
+        const parsed = textToEntries(text).map((e) => {
+          const pin = pins.get(e.word.trim().toUpperCase());
+          return pin ? { ...e, pin } : e;
+        });
         setEntries(
           parsed.length >= 2
             ? parsed
@@ -132,17 +363,49 @@ export const WordInput: React.FC<WordInputProps> = ({
   );
 
   // --- Валидный счётчик слов (единый для обоих режимов) ---
-  const validEntries =
-    mode === "table"
-      ? entries.filter((e) => e.word.trim().length > 0)
-      : textToEntries(text).filter((e) => e.word.trim().length > 0);
+  const rows = mode === "table" ? entries : textToEntries(text);
+  const validEntries = rows.filter((e) => e.word.trim().length > 0);
   const validCount = validEntries.length;
 
+  useEffect(() => {
+    const current = mode === "table" ? entries : textToEntries(text);
+    onEntriesChange?.(current.filter((e) => e.word.trim().length > 0));
+  }, [mode, entries, text, onEntriesChange]);
+
+  // --- Проверка списка так, как его прочтёт генератор ---
+  const issues = checkEntries(
+    rows,
+    resolveAlphabet(
+      alphabet,
+      rows.map((e) => e.word),
+    ),
+    {
+      crossings: CROSSING_KINDS.has(puzzleKind),
+      clues: puzzleKind !== "fillword",
+    },
+  );
+  const issueSummary = (Object.keys(ISSUE_SUMMARY) as EntryIssueKind[])
+    .map((kind) => ({
+      kind,
+      words: rows
+        .filter((_, i) => issues[i].some((issue) => issue.kind === kind))
+        .map((e) => e.word.trim()),
+    }))
+    .filter(({ words }) => words.length > 0);
+  const rowSeverity = (index: number) =>
+    issues[index].length === 0
+      ? ""
+      : issues[index].some((issue) => BLOCKING_ISSUES.has(issue.kind))
+        ? "word-input__row--error"
+        : "word-input__row--warning";
+
   // ========================
   //   Табличный режим
   // ========================
+  const [pinEditorIndex, setPinEditorIndex] = useState<number | null>(null);
+
   const updateEntry = useCallback(
-    (index: number, field: keyof WordEntry, value: string) => {
+    (index: number, field: "word" | "clue", value: string) => {
       setEntries((prev) => {
         const next = [...prev];
         next[index] = { ...next[index], [field]: value };
@@ -152,17 +415,54 @@ export const WordInput: React.FC<WordInputProps> = ({
     [],
   );
 
+  const updatePin = useCallback((index: number, pin: WordPin | undefined) => {
+    setEntries((prev) => {
+      const next = [...prev];
+      next[index] = { ...next[index], pin };
+      return next;
+    });
+  }, []);
+
   const addRow = useCallback(() => {
     setEntries((prev) => [...prev, { ...EMPTY_ROW }]);
   }, []);
 
   const removeRow = useCallback((index: number) => {
+    setPinEditorIndex(null);
     setEntries((prev) => {
       if (prev.length <= 2) return prev;
       return prev.filter((_, i) => i !== index);
     });
   }, []);
 
+  // Диапазон из Excel или Google Таблиц приходит строками с табуляцией:
+  // он раскладывается по строкам таблицы, начиная с текущей
+  const handleTablePaste = (
+    e: React.ClipboardEvent,
+    index: number,
+    field: "word" | "clue",
+  ) => {
+    const pasted = e.clipboardData.getData("text/plain");
+    if (!/[\t\n]/.test(pasted.trim())) return;
+    e.preventDefault();
+    const rows = parseDelimited(pasted, "\t");
+    setEntries((prev) => {
+      const next = [...prev];
+      rows.forEach((row, i) => {
+        const current = next[index + i] ?? { ...EMPTY_ROW };
+        next[index + i] =
+          field === "clue"
+            ? { ...current, clue: row[0].trim() }
+            : {
+                ...current,
+                word: row[0].trim(),
+                clue: row.length > 1 ? row[1].trim() : current.clue,
+              };
+      });
+      return next;
+    });
+  };
+
   const handleTableKeyDown = (e: React.KeyboardEvent, index: number) => {
     if (e.key === "Enter" && index === entries.length - 1) {
       e.preventDefault();
@@ -174,16 +474,15 @@ export const WordInput: React.FC<WordInputProps> = ({
   //   Общие действия
   // ========================
   const handleGenerate = () => {
-    const valid =
-      mode === "table"
-        ? entries.filter((e) => e.word.trim().length > 0)
-        : textToEntries(text).filter((e) => e.word.trim().length > 0);
-
-    if (valid.length < 2) {
+    if (validEntries.length < 2) {
       alert("Введите минимум 2 слова для генерации кроссворда.");
       return;
     }
-    onGenerate(valid);
+    onGenerate(validEntries);
+  };
+
+  const handleUpdate = () => {
+    if (validEntries.length >= 2) onUpdate?.(validEntries);
   };
 
   const handleClear = () => {
@@ -202,6 +501,30 @@ export const WordInput: React.FC<WordInputProps> = ({
     }
   };
 
+  // ========================
+  //   Импорт и экспорт таблиц
+  // ========================
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pickedFile, setPickedFile] = useState<File | null>(null);
+  const importFile = pickedFile ?? droppedFile ?? null;
+
+  const closeImport = () => {
+    setPickedFile(null);
+    onDroppedFileDone?.();
+  };
+
+  const handleImport = (imported: WordEntry[], append: boolean) => {
+    const current = append ? validEntries : [];
+    if (mode === "table") {
+      const next = [...current, ...imported];
+      while (next.length < 2) next.push({ ...EMPTY_ROW });
+      setEntries(next);
+    } else {
+      setText(entriesToText([...current, ...imported]));
+    }
+    closeImport();
+  };
+
   const isEmpty =
     mode === "table"
       ? entries.every((e) => e.word === "" && e.clue === "")
@@ -235,28 +558,43 @@ export const WordInput: React.FC<WordInputProps> = ({
       <p className="word-input__hint">
         {mode === "table"
           ? "Введите слова и подсказки к ним. Необходимо минимум 2 слова."
-          : "Формат: «слово - подсказка» по одной на строку. Разделитель: « - »."}
+          : "Формат: «слово - подсказка» по одной на строку. Разделитель: « - » или табуляция."}
       </p>
 
+      {/* ========== ИМПОРТ ТАБЛИЦЫ ========== */}
+      {importFile && (
+        <TableImport
+          key={`${importFile.name}-${importFile.lastModified}`}
+          file={importFile}
+          onImport={handleImport}
+          onCancel={closeImport}
+        />
+      )}
+
       {/* ========== ТАБЛИЧНЫЙ РЕЖИМ ========== */}
-      {mode === "table" && (
+      {!importFile && mode === "table" && (
         <div className="word-input__list">
           <div className="word-input__list-header">
             <span className="word-input__list-header-num">№</span>
             <span className="word-input__list-header-word">Слово</span>
             <span className="word-input__list-header-clue">Подсказка</span>
             <span className="word-input__list-header-actions" />
+            <span className="word-input__list-header-actions" />
           </div>
 
           <div className="word-input__list-body">
             {entries.map((entry, index) => (
-              <div className="word-input__row" key={index}>
+              <div
+                className={`word-input__row ${rowSeverity(index)}`}
+                key={index}
+              >
                 <span className="word-input__row-num">{index + 1}</span>
                 <input
                   className="word-input__field word-input__field--word"
                   type="text"
                   value={entry.word}
                   onChange={(e) => updateEntry(index, "word", e.target.value)}
+                  onPaste={(e) => handleTablePaste(e, index, "word")}
                   placeholder="Слово"
                   spellCheck={false}
                   autoComplete="off"
@@ -267,10 +605,22 @@ export const WordInput: React.FC<WordInputProps> = ({
                   value={entry.clue}
                   onChange={(e) => updateEntry(index, "clue", e.target.value)}
                   onKeyDown={(e) => handleTableKeyDown(e, index)}
+                  onPaste={(e) => handleTablePaste(e, index, "clue")}
                   placeholder="Подсказка (необязательно)"
                   spellCheck={false}
                   autoComplete="off"
                 />
+                <button
+                  className={`word-input__row-pin ${entry.pin ? "word-input__row-pin--active" : ""}`}
+                  onClick={() =>
+                    setPinEditorIndex(pinEditorIndex === index ? null : index)
+                  }
+                  title={pinTitle(entry.pin)}
+                  aria-label={`Закрепить слово ${index + 1}`}
+                  aria-expanded={pinEditorIndex === index}
+                >
+                  {pinIcon(entry.pin)}
+                </button>
                 <button
                   className="word-input__row-remove"
                   onClick={() => removeRow(index)}
@@ -280,6 +630,24 @@ export const WordInput: React.FC<WordInputProps> = ({
                 >
                   ✕
                 </button>
+                {issues[index].length > 0 && (
+                  <div className="word-input__row-issues">
+                    {issues[index].map((issue) => (
+                      <span
+                        key={issue.kind}
+                        className={`word-input__badge ${BLOCKING_ISSUES.has(issue.kind) ? "word-input__badge--error" : ""}`}
+                      >
+                        {issueBadge(issue, rows)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {pinEditorIndex === index && (
+                  <PinEditor
+                    pin={entry.pin}
+                    onChange={(pin) => updatePin(index, pin)}
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -291,7 +659,7 @@ export const WordInput: React.FC<WordInputProps> = ({
       )}
 
       {/* ========== ТЕКСТОВЫЙ РЕЖИМ ========== */}
-      {mode === "text" && (
+      {!importFile && mode === "text" && (
         <textarea
           className="word-input__textarea"
           value={text}
@@ -302,6 +670,60 @@ export const WordInput: React.FC<WordInputProps> = ({
         />
       )}
 
+      <div className="word-input__files">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={TABLE_FILE_ACCEPT}
+          hidden
+          onChange={(e) => {
+            setPickedFile(e.target.files?.[0] ?? null);
+            e.target.value = "";
+          }}
+        />
+        <button
+          className="btn btn--secondary btn--sm"
+          onClick={() => fileInputRef.current?.click()}
+          title="Загрузить слова из CSV или TSV; файл можно и перетащить на панель"
+        >
+          📂 Из файла
+        </button>
+        <button
+          className="btn btn--secondary btn--sm"
+          onClick={() => exportWordTable(validEntries, "csv")}
+          disabled={validCount === 0}
+          title="Сохранить список для Excel"
+        >
+          ⬇ CSV
+        </button>
+        <button
+          className="btn btn--secondary btn--sm"
+          onClick={() => exportWordTable(validEntries, "tsv")}
+          disabled={validCount === 0}
+          title="Сохранить список с табуляцией"
+        >
+          ⬇ TSV
+        </button>
+      </div>
+
+      {/* ========== СВОДКА ПРОВЕРКИ ========== */}
+      {issueSummary.length > 0 && (
+        <ul className="word-input__issues">
+          {issueSummary.map(({ kind, words }) => (
+            <li
+              key={kind}
+              className={`word-input__issue ${BLOCKING_ISSUES.has(kind) ? "word-input__issue--error" : ""}`}
+            >
+              <strong>{ISSUE_SUMMARY[kind]}:</strong>{" "}
+              {words.slice(0, SUMMARY_WORDS).join(", ")}
+              {words.length > SUMMARY_WORDS &&
+                ` и ещё ${words.length - SUMMARY_WORDS}`}
+              {BLOCKING_ISSUES.has(kind) && " — не войдут в кроссворд"}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* ========== ПОДВАЛ ========== */}
       <div className="word-input__footer">
         <span className="word-input__count">
@@ -322,21 +744,52 @@ export const WordInput: React.FC<WordInputProps> = ({
           >
             Очистить
           </button>
-          <button
-            className="btn btn--primary"
-            onClick={handleGenerate}
-            disabled={isGenerating || validCount < 2}
-          >
-            {isGenerating ? (
-              <>
-                <span className="spinner" /> Генерация…
-              </>
-            ) : (
-              "⚡ Сгенерировать"
-            )}
-          </button>
+          {isGenerating ? (
+            <button
+              className="btn btn--danger"
+              onClick={onCancel}
+              title="Остановить генерацию"
+            >
+              ■ Стоп
+            </button>
+          ) : (
+            <>
+              {onUpdate && (
+                <button
+                  className="btn btn--secondary"
+                  onClick={handleUpdate}
+                  disabled={validCount < 2}
+                  title="Внести правки списка в текущий кроссворд, не перестраивая его"
+                >
+                  ✎ Обновить
+                </button>
+              )}
+              <button
+                className="btn btn--primary"
+                onClick={handleGenerate}
+                disabled={validCount < 2}
+              >
+                ⚡ Сгенерировать
+              </button>
+            </>
+          )}
         </div>
       </div>
+
+      {/* ========== ПРОГРЕСС ГЕНЕРАЦИИ ========== */}
+      {isGenerating && (
+        <div className="word-input__progress" role="status">
+          <div className="word-input__progress-bar">
+            <div
+              className="word-input__progress-fill"
+              style={{ width: `${progressFraction(progress) * 100}%` }}
+            />
+          </div>
+          <span className="word-input__progress-text">
+            {progressLabel(progress)}
+          </span>
+        </div>
+      )}
     </div>
   );
 };
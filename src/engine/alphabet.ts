@@ -0,0 +1,163 @@
+import type { AlphabetId, AlphabetSettings, LetterFolding } from "./types";
+
+/** A language's alphabet: which letters are legal and how to uppercase them */
+export interface AlphabetProfile {
+  /** Legal letters, uppercase */
+  letters: string;
+  /** Uppercase forms where `toUpperCase` gets the language wrong */
+  upperCase?: Record<string, string>;
+  /** Foldings that make sense for the language */
+  foldings: LetterFolding[];
+}
+
+export type ProfileId = Exclude<AlphabetId, "auto">;
+
+/** Profiles in auto-detection order: earlier profiles win ties */
+export const ALPHABET_PROFILES: Record<ProfileId, AlphabetProfile> = {
+  russian: {
+    letters: "АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯ",
+    foldings: ["yo"],
+  },
+  english: {
+    letters: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+    foldings: [],
+  },
+  ukrainian: {
+    letters: "АБВГҐДЕЄЖЗИІЇЙКЛМНОПРСТУФХЦЧШЩЬЮЯ",
+    foldings: [],
+  },
+  belarusian: {
+    letters: "АБВГДЕЁЖЗІЙКЛМНОПРСТУЎФХЦЧШЫЬЭЮЯ",
+    foldings: ["yo"],
+  },
+  german: {
+    letters: "ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÜẞ",
+    // "ß".toUpperCase() is "SS"; keep the letter unless it is folded
+    upperCase: { ß: "ẞ" },
+    foldings: ["umlauts", "sharp-s"],
+  },
+  spanish: {
+    letters: "ABCDEFGHIJKLMNÑOPQRSTUVWXYZÁÉÍÓÚÜ",
+    foldings: ["accents"],
+  },
+};
+
+/** Letters each folding replaces, uppercase */
+export const LETTER_FOLDINGS: Record<LetterFolding, Record<string, string>> = {
+  yo: { Ё: "Е" },
+  "sharp-s": { ẞ: "SS" },
+  umlauts: { Ä: "AE", Ö: "OE", Ü: "UE" },
+  accents: { Á: "A", É: "E", Í: "I", Ó: "O", Ú: "U", Ü: "U" },
+};
+
+export const DEFAULT_ALPHABET: AlphabetSettings = {
+  profile: "auto",
+  foldings: [],
+};
+
+const DIGITS = "0123456789";
+
+/** Alphabet settings resolved for a word list */
+export interface Alphabet {
+  profile: ProfileId;
+  /** Letters a normalised word can contain (after folding), e.g. for fillers */
+  letters: string;
+  /** Uppercase a word, fold its letters and drop everything that isn't a legal letter or digit */
+  normalise(word: string): string;
+}
+
+function upperCase(profile: AlphabetProfile, ch: string): string {
+  return profile.upperCase?.[ch] ?? ch.toUpperCase();
+}
+
+/** How many of the words' letters `profile` can keep */
+function keptLetters(profile: AlphabetProfile, words: string[]): number {
+  let count = 0;
+  for (const word of words) {
+    for (const ch of word.normalize("NFC")) {
+      if (profile.letters.includes(upperCase(profile, ch))) count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Guess the profile of a word list: the one that can keep the most of the
+ * words' letters. Ties go to the earlier profile in `ALPHABET_PROFILES`, so
+ * words that fit Russian and Ukrainian alike count as Russian.
+ */
+export function detectAlphabet(words: string[]): ProfileId {
+  let best: ProfileId = "russian";
+  let bestCount = -1;
+  for (const [id, profile] of Object.entries(ALPHABET_PROFILES)) {
+    const count = keptLetters(profile, words);
+    if (count > bestCount) {
+      best = id as ProfileId;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Profiles an "auto" word list is normalised with: the list's own profile
+ * plus the profile of every word written in another script, so that
+ * "HTML" or "DNA" in a Russian list keep their letters.
+ */
+function profilesInUse(main: ProfileId, words: string[]): ProfileId[] {
+  const ids = new Set<ProfileId>([main]);
+  for (const word of words) {
+    const id = detectAlphabet([word]);
+    if (keptLetters(ALPHABET_PROFILES[id], [word]) > 0) ids.add(id);
+  }
+  return [...ids];
+}
+
+/**
+ * Resolve alphabet settings for a word list: pick the profile (detecting it
+ * from `words` for "auto") and combine it with the chosen foldings. Every
+ * chosen folding applies, even one the profile does not list. Under "auto"
+ * the letters of every profile the words use are legal; filler letters
+ * still come from the detected profile alone.
+ */
+export function resolveAlphabet(
+  settings: AlphabetSettings = DEFAULT_ALPHABET,
+  words: string[],
+): Alphabet {
+  const id =
+    settings.profile === "auto" ? detectAlphabet(words) : settings.profile;
+  const profile = ALPHABET_PROFILES[id];
+  const profiles = (
+    settings.profile === "auto" ? profilesInUse(id, words) : [id]
+  ).map((p) => ALPHABET_PROFILES[p]);
+  const folding: Record<string, string> = Object.assign(
+    {},
+    ...settings.foldings.map((f) => LETTER_FOLDINGS[f]),
+  );
+  const legal = new Set(profiles.map((p) => p.letters).join("") + DIGITS);
+  // The detected profile uppercases first, as its language decides ties
+  const toUpper = (ch: string) =>
+    profiles.map((p) => upperCase(p, ch)).find((u) => legal.has(u)) ??
+    upperCase(profile, ch);
+
+  const fold = (upper: string) => {
+    let out = "";
+    for (const ch of upper) {
+      for (const c of folding[ch] ?? ch) if (legal.has(c)) out += c;
+    }
+    return out;
+  };
+
+  return {
+    profile: id,
+    letters: Array.from(new Set(fold(profile.letters))).join(""),
+    normalise: (word) => {
+      let out = "";
+      // NFC joins letters typed as a base letter plus a combining mark (й, ё)
+      for (const ch of word.trim().normalize("NFC")) {
+        out += fold(toUpper(ch));
+      }
+      return out;
+    },
+  };
+}
@@ -0,0 +1,280 @@
+import type {
+  AlphabetSettings,
+  ChainShape,
+  ChainWord,
+  ChainwordResult,
+  UnplacedWord,
+  WordEntry,
+} from "./types";
+import { createRandom, randomSeed, shuffle, type Random } from "./random";
+import { normaliseEntriesWithDrops } from "./grid";
+import { resolveAlphabet } from "./alphabet";
+
+/** Options for `generateChainword` */
+export interface ChainwordOptions {
+  /** Seed for the pseudo-random generator; a fresh one is picked if omitted */
+  seed?: number;
+  /** Letters to normalise words to (default: detected from the words) */
+  alphabet?: AlphabetSettings;
+  shape?: ChainShape;
+  /** Most letters neighbouring words may share (default 1 — last letter = first letter) */
+  maxOverlap?: number;
+}
+
+/** Node budget of the chain search — keeps generation fast and reproducible */
+const MAX_SEARCH_NODES = 200_000;
+
+/**
+ * Number of letters `next` can share with the end of `prev`: the longest
+ * suffix of `prev` that is a prefix of `next`, up to `maxOverlap`. Both words
+ * must keep at least one letter of their own. Returns 0 if they don't link.
+ */
+function overlapLength(prev: string, next: string, maxOverlap: number): number {
+  const limit = Math.min(maxOverlap, prev.length - 1, next.length - 1);
+  for (let k = limit; k >= 1; k--) {
+    if (prev.endsWith(next.slice(0, k))) return k;
+  }
+  return 0;
+}
+
+interface ChainSearch {
+  /** Entry indices in chain order */
+  order: number[];
+  /** True if every possible chain was considered */
+  exhausted: boolean;
+}
+
+/**
+ * Find the longest chain of words (a longest simple path in the overlap graph)
+ * by depth-first search. Neighbours with the fewest onward links are tried
+ * first (Warnsdorff's rule), which finds chains through all words quickly
+ * when they exist. The search stops after `MAX_SEARCH_NODES` nodes.
+ */
+function findChain(links: number[][], random: Random): ChainSearch {
+  const n = links.length;
+  const next = links.map((row) =>
+    row.flatMap((overlap, j) => (overlap > 0 ? [j] : [])),
+  );
+  const visited = new Array<boolean>(n).fill(false);
+  const path: number[] = [];
+  let best: number[] = [];
+  let nodes = 0;
+  let outOfBudget = false;
+
+  /** Number of unvisited words reachable from `from` */
+  const reachable = (from: number): number => {
+    const seen = new Set<number>();
+    const stack = [from];
+    while (stack.length > 0) {
+      for (const j of next[stack.pop()!]) {
+        if (!visited[j] && !seen.has(j)) {
+          seen.add(j);
+          stack.push(j);
+        }
+      }
+    }
+    return seen.size;
+  };
+
+  const onwardLinks = (i: number) => next[i].filter((j) => !visited[j]).length;
+
+  const dfs = (current: number): void => {
+    if (++nodes > MAX_SEARCH_NODES) {
+      outOfBudget = true;
+      return;
+    }
+    if (path.length > best.length) best = [...path];
+    if (best.length === n) return;
+    // Even taking every word still reachable couldn't beat the best chain
+    if (path.length + reachable(current) <= best.length) return;
+
+    const options = shuffle(
+      next[current].filter((j) => !visited[j]),
+      random,
+    ).sort((a, b) => onwardLinks(a) - onwardLinks(b));
+    for (const j of options) {
+      visited[j] = true;
+      path.push(j);
+      dfs(j);
+      path.pop();
+      visited[j] = false;
+      if (outOfBudget || best.length === n) return;
+    }
+  };
+
+  // Words nothing leads to make the best starting points
+  const incoming = new Array<number>(n).fill(0);
+  for (const row of next) for (const j of row) incoming[j]++;
+  const starts = shuffle(
+    Array.from({ length: n }, (_, i) => i),
+    random,
+  ).sort((a, b) => incoming[a] - incoming[b]);
+
+  for (const start of starts) {
+    visited[start] = true;
+    path.push(start);
+    dfs(start);
+    path.pop();
+    visited[start] = false;
+    if (outOfBudget || best.length === n) break;
+  }
+
+  return { order: best, exhausted: !outOfBudget };
+}
+
+/**
+ * Cell positions of a strip of `length` cells folded into a rectangle.
+ * A snake fills rows back and forth; a spiral winds clockwise inwards,
+ * leaving the unused cells in the middle.
+ */
+export function foldStrip(
+  length: number,
+  shape: ChainShape,
+): { path: { x: number; y: number }[]; width: number; height: number } {
+  const width = Math.max(1, Math.ceil(Math.sqrt(length)));
+  const height = Math.max(1, Math.ceil(length / width));
+  const path: { x: number; y: number }[] = [];
+
+  if (shape === "snake") {
+    for (let i = 0; i < length; i++) {
+      const y = Math.floor(i / width);
+      const col = i % width;
+      path.push({ x: y % 2 === 0 ? col : width - 1 - col, y });
+    }
+    return { path, width, height };
+  }
+
+  let top = 0;
+  let bottom = height - 1;
+  let left = 0;
+  let right = width - 1;
+  while (path.length < length && top <= bottom && left <= right) {
+    for (let x = left; x <= right; x++) path.push({ x, y: top });
+    top++;
+    for (let y = top; y <= bottom; y++) path.push({ x: right, y });
+    right--;
+    if (top <= bottom) {
+      for (let x = right; x >= left; x--) path.push({ x, y: bottom });
+      bottom--;
+    }
+    if (left <= right) {
+      for (let y = bottom; y >= top; y--) path.push({ x: left, y });
+      left++;
+    }
+  }
+  return { path: path.slice(0, length), width, height };
+}
+
+/**
+ * Generate a chainword («чайнворд»): the words are ordered into a chain where
+ * the last letter(s) of each word are the first letter(s) of the next, and the
+ * chain is written into a strip of cells folded as a snake or a spiral.
+ * Words are numbered in chain order. Words that don't fit into the longest
+ * chain found are reported as unplaced.
+ */
+export function generateChainword(
+  inputEntries: WordEntry[],
+  options: ChainwordOptions = {},
+): ChainwordResult {
+  const { shape = "snake", maxOverlap = 1 } = options;
+  const seed = options.seed ?? randomSeed();
+  const random = createRandom(seed);
+
+  const { entries, dropped } = normaliseEntriesWithDrops(
+    inputEntries,
+    resolveAlphabet(
+      options.alphabet,
+      inputEntries.map((e) => e.word),
+    ),
+  );
+  const links = entries.map((a, i) =>
+    entries.map((b, j) =>
+      i === j ? 0 : overlapLength(a.upper, b.upper, maxOverlap),
+    ),
+  );
+
+  const { order, exhausted } = findChain(links, random);
+
+  const words: ChainWord[] = [];
+  let letters = "";
+  order.forEach((index, position) => {
+    const entry = entries[index];
+    const overlap = position === 0 ? 0 : links[order[position - 1]][index];
+    words.push({
+      word: entry.upper,
+      label: entry.original,
+      clue: entry.clue,
+      number: position + 1,
+      start: letters.length - overlap,
+      overlap,
+    });
+    letters += entry.upper.slice(overlap);
+  });
+
+  const inChain = new Set(order);
+  const linked = (i: number) =>
+    links[i].some((o) => o > 0) || links.some((row) => row[i] > 0);
+  const unplacedDetails: UnplacedWord[] = entries
+    .map((entry, i) => ({ entry, i }))
+    .filter(({ i }) => !inChain.has(i))
+    .map(({ entry, i }) => ({
+      word: entry.original,
+      reason: linked(i) ? "not-needed" : "no-placement",
+    }));
+  unplacedDetails.push(...dropped);
+
+  const { path, width, height } = foldStrip(letters.length, shape);
+
+  return {
+    words,
+    letters,
+    shape,
+    path,
+    width: letters.length > 0 ? width : 0,
+    height: letters.length > 0 ? height : 0,
+    unplacedWords: unplacedDetails.map((u) => u.word),
+    unplacedDetails,
+    seed,
+    search: {
+      mode: "backtrack",
+      optimal: exhausted || order.length === entries.length,
+    },
+  };
+}
+
+export type ChainSide = "top" | "right" | "bottom" | "left";
+
+/** A cell of the chainword strip, ready for rendering */
+export interface ChainCell {
+  letter: string;
+  /** Number of the word starting in this cell */
+  number?: number;
+  /** Sides shared with the previous or next cell of the strip */
+  joined: Record<ChainSide, boolean>;
+}
+
+/**
+ * Convert the chain into a 2D array for rendering, like `gridTo2D`.
+ * Returns null for cells outside the strip.
+ */
+export function chainTo2D(chain: ChainwordResult): (ChainCell | null)[][] {
+  const rows: (ChainCell | null)[][] = Array.from(
+    { length: chain.height },
+    () => new Array<ChainCell | null>(chain.width).fill(null),
+  );
+  const numbers = new Map(chain.words.map((w) => [w.start, w.number]));
+
+  chain.path.forEach(({ x, y }, i) => {
+    const joined = { top: false, right: false, bottom: false, left: false };
+    for (const other of [chain.path[i - 1], chain.path[i + 1]]) {
+      if (!other) continue;
+      if (other.x === x && other.y === y - 1) joined.top = true;
+      if (other.x === x + 1 && other.y === y) joined.right = true;
+      if (other.x === x && other.y === y + 1) joined.bottom = true;
+      if (other.x === x - 1 && other.y === y) joined.left = true;
+    }
+    rows[y][x] = { letter: chain.letters[i], number: numbers.get(i), joined };
+  });
+
+  return rows;
+}
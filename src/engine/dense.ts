@@ -0,0 +1,425 @@
+import type {
+  AlphabetSettings,
+  CrosswordResult,
+  Grid,
+  GridTemplate,
+  PlacedWord,
+  Slot,
+  UnplacedWord,
+  WordBreak,
+  WordEntry,
+} from "./types";
+import { createRandom, randomSeed, shuffle, type Random } from "./random";
+import {
+  key,
+  assignNumbers,
+  findWordBreaks,
+  normaliseEntriesWithDrops,
+  normaliseWord,
+} from "./grid";
+import { findSlots, generateTemplate, parseTemplate } from "./template";
+import { measureLayout } from "./scoring";
+import { resolveAlphabet, type Alphabet } from "./alphabet";
+
+/** Options for `generateDenseCrossword` */
+export interface DenseOptions {
+  /** Seed for the pseudo-random generator; a fresh one is picked if omitted */
+  seed?: number;
+  /** Letters to normalise words to (default: detected from the words) */
+  alphabet?: AlphabetSettings;
+  /** Size of generated templates */
+  width: number;
+  height: number;
+  /** Generated templates are symmetric under a half turn */
+  symmetric: boolean;
+  /** Fixed template text (see `parseTemplate`); generated when empty */
+  template?: string;
+  /** Time budget for the whole fill, in milliseconds */
+  timeBudgetMs?: number;
+}
+
+const DEFAULT_TIME_BUDGET_MS = 5000;
+/** How often (in visited nodes) the solver checks the clock */
+const CLOCK_CHECK_INTERVAL = 256;
+/** Time one generated template gets before the next one is tried */
+const TEMPLATE_SHARE_MS = 1000;
+/** Dictionary words looked at to detect the alphabet when there are no entries */
+const DETECT_SAMPLE_SIZE = 1000;
+
+/** A fill word: normalised form plus how to show it */
+interface FillWord {
+  upper: string;
+  label: string;
+  clue: string;
+  breaks?: WordBreak[];
+}
+
+/**
+ * Words of one length indexed by letter position, so the words matching
+ * a partly filled slot can be found by intersecting a few short lists.
+ */
+interface LengthIndex {
+  words: FillWord[];
+  /** `byLetter[i].get(c)` — indices of the words with letter `c` at position `i` */
+  byLetter: Map<string, number[]>[];
+}
+
+function buildIndex(words: FillWord[]): Map<number, LengthIndex> {
+  const index = new Map<number, LengthIndex>();
+  for (const word of words) {
+    const length = word.upper.length;
+    let entry = index.get(length);
+    if (!entry) {
+      entry = {
+        words: [],
+        byLetter: Array.from({ length }, () => new Map()),
+      };
+      index.set(length, entry);
+    }
+    const i = entry.words.length;
+    entry.words.push(word);
+    for (let pos = 0; pos < length; pos++) {
+      const list = entry.byLetter[pos].get(word.upper[pos]);
+      if (list) list.push(i);
+      else entry.byLetter[pos].set(word.upper[pos], [i]);
+    }
+  }
+  return index;
+}
+
+/** Indices of the words matching `pattern` (`""` for an open cell) */
+function matchPattern(index: LengthIndex, pattern: string[]): number[] {
+  const lists: number[][] = [];
+  pattern.forEach((letter, pos) => {
+    if (letter) lists.push(index.byLetter[pos].get(letter) ?? []);
+  });
+  if (lists.length === 0) return index.words.map((_, i) => i);
+  lists.sort((a, b) => a.length - b.length);
+  let result = lists[0];
+  for (const list of lists.slice(1)) {
+    const set = new Set(list);
+    result = result.filter((i) => set.has(i));
+    if (result.length === 0) break;
+  }
+  return result;
+}
+
+/** Normalise an imported word list: valid, distinct words of two letters or more */
+function normaliseDictionary(
+  dictionary: string[],
+  required: Set<string>,
+  alphabet: Alphabet,
+): FillWord[] {
+  const seen = new Set<string>();
+  const words: FillWord[] = [];
+  for (const line of dictionary) {
+    const label = line.trim();
+    const upper = normaliseWord(label, alphabet);
+    if (upper.length < 2 || seen.has(upper) || required.has(upper)) continue;
+    seen.add(upper);
+    const breaks = findWordBreaks(label, alphabet);
+    words.push({
+      upper,
+      label,
+      clue: "",
+      ...(breaks.length > 0 && { breaks }),
+    });
+  }
+  return words;
+}
+
+/** Cell indices (`y * width + x`) of a slot's letters */
+function slotCells(slot: Slot, width: number): number[] {
+  const cells: number[] = [];
+  for (let i = 0; i < slot.length; i++) {
+    const x = slot.direction === "across" ? slot.x + i : slot.x;
+    const y = slot.direction === "down" ? slot.y + i : slot.y;
+    cells.push(y * width + x);
+  }
+  return cells;
+}
+
+/**
+ * Fill every slot of a template: first the required words, each in some slot
+ * of its length, then the dictionary words. Depth-first search that always
+ * branches on the slot with the fewest matching words; a slot with none
+ * sends the search back. No word is used twice.
+ * Returns the word in each slot, or null if the template could not be filled.
+ */
+function fillTemplate(
+  template: GridTemplate,
+  slots: Slot[],
+  required: FillWord[],
+  index: Map<number, LengthIndex>,
+  deadline: number,
+  random: Random,
+): FillWord[] | null {
+  const cells = slots.map((slot) => slotCells(slot, template.width));
+  const letters = new Array<string>(template.width * template.height).fill("");
+  const assignment: (FillWord | null)[] = slots.map(() => null);
+  const used = new Set<string>();
+  let nodes = 0;
+  let timedOut = false;
+
+  const outOfTime = (): boolean => {
+    if (!timedOut && ++nodes % CLOCK_CHECK_INTERVAL === 0) {
+      if (Date.now() > deadline) timedOut = true;
+    }
+    return timedOut;
+  };
+
+  const pattern = (s: number) => cells[s].map((c) => letters[c]);
+
+  const fits = (s: number, word: string) =>
+    cells[s].every((c, i) => !letters[c] || letters[c] === word[i]);
+
+  /** Write a word into a slot; returns the cells it filled */
+  const place = (s: number, word: FillWord): number[] => {
+    const filled: number[] = [];
+    cells[s].forEach((c, i) => {
+      if (!letters[c]) {
+        letters[c] = word.upper[i];
+        filled.push(c);
+      }
+    });
+    assignment[s] = word;
+    used.add(word.upper);
+    return filled;
+  };
+
+  const unplace = (s: number, filled: number[]) => {
+    for (const c of filled) letters[c] = "";
+    used.delete(assignment[s]!.upper);
+    assignment[s] = null;
+  };
+
+  const fillRest = (): boolean => {
+    if (outOfTime()) return false;
+
+    // Most constrained open slot first
+    let chosen = -1;
+    let chosenMatches: number[] = [];
+    for (let s = 0; s < slots.length; s++) {
+      if (assignment[s]) continue;
+      const lengthIndex = index.get(slots[s].length);
+      const matches = lengthIndex
+        ? matchPattern(lengthIndex, pattern(s)).filter(
+            (i) => !used.has(lengthIndex.words[i].upper),
+          )
+        : [];
+      if (matches.length === 0) return false;
+      if (chosen === -1 || matches.length < chosenMatches.length) {
+        chosen = s;
+        chosenMatches = matches;
+      }
+    }
+    if (chosen === -1) return true;
+
+    const words = index.get(slots[chosen].length)!.words;
+    for (const i of shuffle(chosenMatches, random)) {
+      const filled = place(chosen, words[i]);
+      if (fillRest()) return true;
+      unplace(chosen, filled);
+      if (timedOut) return false;
+    }
+    return false;
+  };
+
+  const placeRequired = (r: number): boolean => {
+    if (r === required.length) return fillRest();
+    if (outOfTime()) return false;
+    const word = required[r];
+    const options = shuffle(
+      slots
+        .map((_, s) => s)
+        .filter(
+          (s) =>
+            !assignment[s] &&
+            slots[s].length === word.upper.length &&
+            fits(s, word.upper),
+        ),
+      random,
+    );
+    for (const s of options) {
+      const filled = place(s, word);
+      if (placeRequired(r + 1)) return true;
+      unplace(s, filled);
+      if (timedOut) return false;
+    }
+    return false;
+  };
+
+  return placeRequired(0) ? (assignment as FillWord[]) : null;
+}
+
+/**
+ * Generate a dense, American-style crossword: every white cell of a
+ * rectangular template holds a letter and belongs to an across and/or a down
+ * word. All `entries` (the required words, with their clues) go in first;
+ * the remaining slots are filled from `dictionary`, a word list imported by
+ * the user. Dictionary words get no clues.
+ *
+ * With a fixed `options.template` only that template is tried. Otherwise
+ * templates are generated (see `generateTemplate`) and each gets a share of
+ * the time budget until one can be filled.
+ * Throws if no template could be filled in time.
+ */
+export function generateDenseCrossword(
+  inputEntries: WordEntry[],
+  dictionary: string[],
+  options: DenseOptions,
+): CrosswordResult {
+  const {
+    width,
+    height,
+    symmetric,
+    timeBudgetMs = DEFAULT_TIME_BUDGET_MS,
+  } = options;
+  const seed = options.seed ?? randomSeed();
+  const random = createRandom(seed);
+  const deadline = Date.now() + timeBudgetMs;
+
+  // The entries decide the alphabet; without them, the start of the dictionary does
+  const alphabet = resolveAlphabet(
+    options.alphabet,
+    inputEntries.length > 0
+      ? inputEntries.map((e) => e.word)
+      : dictionary.slice(0, DETECT_SAMPLE_SIZE),
+  );
+  const { entries, dropped } = normaliseEntriesWithDrops(
+    inputEntries,
+    alphabet,
+  );
+  // Longest first: they have the fewest slots to choose from
+  const required: FillWord[] = [...entries]
+    .sort((a, b) => b.upper.length - a.upper.length)
+    .map((e) => ({
+      upper: e.upper,
+      label: e.original,
+      clue: e.clue,
+      breaks: e.breaks,
+    }));
+  const index = buildIndex(
+    normaliseDictionary(
+      dictionary,
+      new Set(entries.map((e) => e.upper)),
+      alphabet,
+    ),
+  );
+
+  const fixed = options.template?.trim()
+    ? parseTemplate(options.template)
+    : null;
+
+  // A word with no slot of its length can never go in: say so at once
+  const slotLengths = fixed
+    ? new Set(findSlots(fixed).map((slot) => slot.length))
+    : null;
+  const misfit = required.find((w) =>
+    slotLengths
+      ? !slotLengths.has(w.upper.length)
+      : w.upper.length > Math.max(width, height),
+  );
+  if (misfit) {
+    throw new Error(
+      slotLengths
+        ? `Для слова «${misfit.label}» в шаблоне нет места из ${misfit.upper.length} букв.`
+        : `Слово «${misfit.label}» длиннее стороны сетки ${width}×${height}.`,
+    );
+  }
+
+  while (Date.now() < deadline) {
+    const template =
+      fixed ?? generateTemplate(width, height, symmetric, random);
+    const slots = findSlots(template);
+    const unfillable = slots.find(
+      (slot) =>
+        !index.has(slot.length) &&
+        !required.some((w) => w.upper.length === slot.length),
+    );
+    if (unfillable && fixed && index.size > 0) {
+      throw new Error(
+        `В словаре нет слов из ${unfillable.length} букв, а в шаблоне есть места такой длины.`,
+      );
+    }
+    const templateDeadline = fixed
+      ? deadline
+      : Math.min(deadline, Date.now() + TEMPLATE_SHARE_MS);
+    const assignment = fillTemplate(
+      template,
+      slots,
+      required,
+      index,
+      templateDeadline,
+      random,
+    );
+    if (assignment) {
+      return buildResult(template, slots, assignment, dropped, seed);
+    }
+    if (fixed) break;
+  }
+
+  throw new Error(
+    index.size === 0
+      ? "Загрузите словарь: без него сетку нечем заполнить."
+      : "Не удалось заполнить сетку за отведённое время. Попробуйте больший словарь, другой шаблон или меньше обязательных слов.",
+  );
+}
+
+function buildResult(
+  template: GridTemplate,
+  slots: Slot[],
+  assignment: FillWord[],
+  dropped: UnplacedWord[],
+  seed: number,
+): CrosswordResult {
+  const grid: Grid = new Map();
+  const words: PlacedWord[] = slots.map((slot, s) => {
+    const word = assignment[s];
+    slotCells(slot, template.width).forEach((c, i) => {
+      const x = c % template.width;
+      const y = Math.floor(c / template.width);
+      grid.set(key(x, y), { letter: word.upper[i], isLetter: true });
+    });
+    return {
+      word: word.upper,
+      label: word.label,
+      clue: word.clue,
+      breaks: word.breaks,
+      x: slot.x,
+      y: slot.y,
+      direction: slot.direction,
+      number: 0,
+    };
+  });
+
+  assignNumbers(words, grid);
+  const stats = measureLayout(words, grid);
+  const { width, height } = template;
+
+  return {
+    words,
+    grid,
+    // The template, not the letters, sets the size: black squares may line the edges
+    bounds: {
+      minX: 0,
+      minY: 0,
+      maxX: width - 1,
+      maxY: height - 1,
+      width,
+      height,
+    },
+    unplacedWords: dropped.map((u) => u.word),
+    unplacedDetails: dropped,
+    metrics: {
+      width,
+      height,
+      placed: words.length,
+      intersections: stats.intersections,
+      score: 0,
+    },
+    seed,
+    search: { mode: "backtrack", optimal: true },
+    template,
+  };
+}
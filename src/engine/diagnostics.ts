@@ -0,0 +1,103 @@
+import type { Grid, UnplacedWord } from "./types";
+import {
+  findCandidates,
+  type Candidate,
+  type Extent,
+  type NormalisedEntry,
+} from "./grid";
+import { allowsDirection } from "./pins";
+
+/** Size limits of the grid, as set in the generation options */
+export interface SizeLimits {
+  maxWidth?: number;
+  maxHeight?: number;
+  /** Grid keys of the shape mask's cells, if the words must fit a shape */
+  mask?: ReadonlySet<string>;
+}
+
+/** Most letters suggested for a new crossing word */
+const MAX_SUGGESTED_LETTERS = 3;
+
+/**
+ * Letters of `word` worth asking for in a new word: the most frequent ones
+ * first, then in order of appearance. Letters in `avoid` (already tried on
+ * the grid) go last.
+ */
+export function suggestLetters(
+  word: string,
+  avoid: ReadonlySet<string> = new Set(),
+): string[] {
+  const counts = new Map<string, number>();
+  for (const letter of word) counts.set(letter, (counts.get(letter) ?? 0) + 1);
+  return Array.from(counts.keys())
+    .map((letter, order) => ({ letter, order }))
+    .sort(
+      (a, b) =>
+        Number(avoid.has(a.letter)) - Number(avoid.has(b.letter)) ||
+        counts.get(b.letter)! - counts.get(a.letter)! ||
+        a.order - b.order,
+    )
+    .slice(0, MAX_SUGGESTED_LETTERS)
+    .map(({ letter }) => letter);
+}
+
+/**
+ * Work out why `entry` is missing from the final layout. `others` are the
+ * normalised forms of the other words in the list; a word sharing no letter
+ * with any of them can never cross anything. Only spots in the pinned
+ * direction count for a pinned word. Reasons that a new word could fix come
+ * with letters to suggest for it. Puzzles with their own placement rules
+ * (scanwords) pass `placements` to find where a word could cross.
+ */
+export function explainUnplaced(
+  entry: NormalisedEntry,
+  grid: Grid,
+  extent: Extent,
+  limits: SizeLimits,
+  others: readonly string[],
+  placements: (word: string) => Candidate[] = (word) =>
+    findCandidates(grid, word),
+): Omit<UnplacedWord, "word"> {
+  const word = entry.upper;
+  const allowed = (candidates: Candidate[]) =>
+    candidates.filter((c) => allowsDirection(entry, c.direction));
+  const longest = Math.max(
+    limits.maxWidth ?? Infinity,
+    limits.maxHeight ?? Infinity,
+  );
+  if (word.length > longest) return { reason: "too-long" };
+
+  if (
+    !others.some((other) => Array.from(other).some((l) => word.includes(l)))
+  ) {
+    return {
+      reason: "no-shared-letters",
+      suggestLetters: suggestLetters(word),
+    };
+  }
+
+  const candidates = allowed(placements(word));
+  if (candidates.length === 0) {
+    const onGrid = new Set<string>();
+    grid.forEach((cell) => {
+      if (word.includes(cell.letter)) onGrid.add(cell.letter);
+    });
+    // Its letters are on the grid, but every crossing through them is taken
+    return onGrid.size > 0
+      ? { reason: "blocked", suggestLetters: suggestLetters(word, onGrid) }
+      : { reason: "no-placement", suggestLetters: suggestLetters(word) };
+  }
+
+  const hasLimits =
+    limits.maxWidth !== undefined ||
+    limits.maxHeight !== undefined ||
+    limits.mask !== undefined;
+  if (
+    hasLimits &&
+    allowed(findCandidates(grid, word, { ...limits, extent })).length === 0
+  ) {
+    return { reason: "out-of-bounds" };
+  }
+  // It fits somewhere, but the search gave its spots to other words
+  return { reason: "not-needed" };
+}
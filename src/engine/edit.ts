@@ -0,0 +1,443 @@
+import type {
+  CrosswordResult,
+  Direction,
+  GenerationOptions,
+  Grid,
+  PlacedWord,
+  SpareWord,
+  UnplacedWord,
+  WordEntry,
+} from "./types";
+import {
+  key,
+  canPlace,
+  placeWord,
+  findCandidates,
+  computeBounds,
+  assignNumbers,
+  normaliseEntriesWithDrops,
+  normaliseWord,
+  spareWord,
+  type NormalisedEntry,
+} from "./grid";
+import { explainUnplaced, type SizeLimits } from "./diagnostics";
+import { resolveAlphabet } from "./alphabet";
+import { allowsDirection, hasFixedPosition } from "./pins";
+import {
+  MASK_FILL_WEIGHT,
+  coverageGain,
+  maskBounds,
+  maskCellsOnGrid,
+  maskCoverage,
+} from "./mask";
+import {
+  DEFAULT_OBJECTIVES,
+  measureLayout,
+  objectiveScore,
+  scoreCandidate,
+} from "./scoring";
+import { revealLetters } from "./reveal";
+
+/** Generation options that still matter when editing a finished layout */
+export type EditOptions = Pick<
+  GenerationOptions,
+  "maxWidth" | "maxHeight" | "objectives" | "alphabet"
+>;
+
+/** Outcome of `applyEntries` */
+export interface EditOutcome {
+  /** The edited layout, or null if a new word found no place on the grid */
+  result: CrosswordResult | null;
+  /** Original spellings of the new words that found no place */
+  failed: string[];
+}
+
+/** Size limits the layout was generated under: its mask, or the options' size */
+function limitsOf(result: CrosswordResult, options: EditOptions): SizeLimits {
+  return result.mask
+    ? {
+        maxWidth: result.mask.width,
+        maxHeight: result.mask.height,
+        mask: maskCellsOnGrid(result.mask),
+      }
+    : { maxWidth: options.maxWidth, maxHeight: options.maxHeight };
+}
+
+/** Fresh grid holding copies of `words`, so the edited result shares nothing with the old one */
+function rebuildGrid(words: PlacedWord[]): {
+  grid: Grid;
+  placed: PlacedWord[];
+} {
+  const grid: Grid = new Map();
+  const placed = words.map((w) => ({ ...w }));
+  for (const w of placed) placeWord(grid, w.word, w.x, w.y, w.direction);
+  return { grid, placed };
+}
+
+/**
+ * Put `entry` on the grid at its best-scored crossing, as the greedy
+ * generator would. Returns false if no crossing fits.
+ */
+function placeEntry(
+  grid: Grid,
+  placed: PlacedWord[],
+  entry: NormalisedEntry,
+  limits: SizeLimits,
+  options: EditOptions,
+): boolean {
+  const { objectives = DEFAULT_OBJECTIVES } = options;
+  if (hasFixedPosition(entry)) return false;
+  const stats = measureLayout(placed, grid);
+  const candidates = findCandidates(grid, entry.upper, {
+    ...limits,
+    extent: stats,
+  }).filter((c) => allowsDirection(entry, c.direction));
+  if (candidates.length === 0) return false;
+
+  const maskCells = limits.mask;
+  const score = (c: (typeof candidates)[number]) =>
+    scoreCandidate(c, entry.upper.length, stats, objectives) +
+    (maskCells
+      ? MASK_FILL_WEIGHT * coverageGain(grid, maskCells, entry.upper.length, c)
+      : 0);
+  const pick = candidates.reduce((best, c) =>
+    score(c) > score(best) ? c : best,
+  );
+
+  placeWord(grid, entry.upper, pick.x, pick.y, pick.direction);
+  placed.push({
+    word: entry.upper,
+    label: entry.original,
+    clue: entry.clue,
+    breaks: entry.breaks,
+    x: pick.x,
+    y: pick.y,
+    direction: pick.direction,
+    number: 0,
+  });
+  return true;
+}
+
+/** Renumber the edited layout and recompute everything derived from it */
+function finish(
+  result: CrosswordResult,
+  grid: Grid,
+  placed: PlacedWord[],
+  unplacedDetails: UnplacedWord[],
+  options: EditOptions,
+): CrosswordResult {
+  const { objectives = DEFAULT_OBJECTIVES } = options;
+  assignNumbers(placed, grid);
+  const bounds = result.mask ? maskBounds(result.mask) : computeBounds(grid);
+  const stats = measureLayout(placed, grid);
+  const maskCells = result.mask && maskCellsOnGrid(result.mask);
+  const score =
+    objectiveScore(stats, objectives) +
+    (maskCells ? MASK_FILL_WEIGHT * maskCoverage(grid, maskCells) : 0);
+  const leftOut = unplacedDetails.filter(
+    (u) => u.reason !== "duplicate" && u.reason !== "too-short",
+  );
+
+  const edited: CrosswordResult = {
+    ...result,
+    words: placed,
+    grid,
+    bounds,
+    unplacedWords: unplacedDetails.map((u) => u.word),
+    unplacedDetails,
+    metrics: {
+      width: bounds.width,
+      height: bounds.height,
+      placed: placed.length,
+      intersections: stats.intersections,
+      score,
+    },
+    // An edited layout was not searched for, so only a full one is known to be best
+    search: { ...result.search, optimal: leftOut.length === 0 },
+  };
+  // Preset hints follow the new layout; hand-picked ones stay where they were
+  const { revealed } = result;
+  if (revealed && revealed.preset !== "manual") {
+    edited.revealed = revealLetters(edited, revealed.preset, revealed.percent);
+  }
+  return edited;
+}
+
+/**
+ * Remove the answer `word` (as stored in `PlacedWord.word`) from a layout.
+ * Cells no other word uses are cleared and clue numbers are recomputed;
+ * the other words stay where they are.
+ */
+export function removeWord(
+  result: CrosswordResult,
+  word: string,
+  options: EditOptions = {},
+): CrosswordResult {
+  const { grid, placed } = rebuildGrid(
+    result.words.filter((w) => w.word !== word),
+  );
+  return finish(result, grid, placed, result.unplacedDetails, options);
+}
+
+/**
+ * Add one entry to a layout at its best crossing with the words already
+ * there, without moving them. Returns null if it has no valid crossing
+ * (or is pinned to a fixed position) — the layout then needs a full
+ * regeneration.
+ */
+export function addWord(
+  result: CrosswordResult,
+  entry: WordEntry,
+  options: EditOptions = {},
+): CrosswordResult | null {
+  const alphabet = resolveAlphabet(options.alphabet, [
+    ...result.words.map((w) => w.label),
+    entry.word,
+  ]);
+  const [normalised] = normaliseEntriesWithDrops([entry], alphabet).entries;
+  if (!normalised || result.words.some((w) => w.word === normalised.upper)) {
+    return null;
+  }
+
+  const { grid, placed } = rebuildGrid(result.words);
+  if (
+    !placeEntry(grid, placed, normalised, limitsOf(result, options), options)
+  ) {
+    return null;
+  }
+  const unplacedDetails = result.unplacedDetails.filter(
+    (u) => normaliseWord(u.word, alphabet) !== normalised.upper,
+  );
+  return finish(result, grid, placed, unplacedDetails, options);
+}
+
+/**
+ * Bring a layout in line with an edited word list without regenerating it.
+ * Words gone from the list are removed, words still in it keep their cells
+ * (with the new clue and spelling), and new words are added one by one,
+ * longest first. Words that were already left out may stay left out; if a
+ * new word finds no place, nothing is changed and it is reported in `failed`.
+ */
+export function applyEntries(
+  result: CrosswordResult,
+  inputEntries: WordEntry[],
+  options: EditOptions = {},
+): EditOutcome {
+  const alphabet = resolveAlphabet(
+    options.alphabet,
+    inputEntries.map((e) => e.word),
+  );
+  const { entries, dropped } = normaliseEntriesWithDrops(
+    inputEntries,
+    alphabet,
+  );
+  const byUpper = new Map(entries.map((e) => [e.upper, e]));
+
+  // Words still in the list keep their place, with the edited label and clue
+  const kept = result.words.flatMap((w) => {
+    const entry = byUpper.get(w.word);
+    return entry
+      ? [
+          {
+            ...w,
+            label: entry.original,
+            clue: entry.clue,
+            breaks: entry.breaks,
+          },
+        ]
+      : [];
+  });
+  const { grid, placed } = rebuildGrid(kept);
+  const limits = limitsOf(result, options);
+
+  const wasLeftOut = new Set(
+    result.unplacedDetails.map((u) => normaliseWord(u.word, alphabet)),
+  );
+  const onGrid = new Set(kept.map((w) => w.word));
+  const added = entries
+    .filter((e) => !onGrid.has(e.upper))
+    .sort((a, b) => b.upper.length - a.upper.length);
+  const leftOut: NormalisedEntry[] = [];
+  const failed: string[] = [];
+  for (const entry of added) {
+    if (placeEntry(grid, placed, entry, limits, options)) continue;
+    if (wasLeftOut.has(entry.upper)) leftOut.push(entry);
+    else failed.push(entry.original);
+  }
+  if (failed.length > 0) return { result: null, failed };
+
+  const uppers = entries.map((e) => e.upper);
+  const stats = measureLayout(placed, grid);
+  const unplacedDetails: UnplacedWord[] = [
+    ...leftOut.map((e) => ({
+      word: e.original,
+      ...explainUnplaced(
+        e,
+        grid,
+        stats,
+        limits,
+        uppers.filter((u) => u !== e.upper),
+      ),
+      spare: spareWord(e),
+    })),
+    ...dropped,
+  ];
+  return {
+    result: finish(result, grid, placed, unplacedDetails, options),
+    failed: [],
+  };
+}
+
+/** Where a word lies on the grid */
+type WordSpan = Pick<PlacedWord, "word" | "x" | "y" | "direction">;
+
+/**
+ * Words cut off from the rest of the crossword: everything outside its
+ * largest group of words linked by shared cells. Empty when the crossword
+ * is in one piece.
+ */
+export function looseWords<W extends WordSpan>(words: W[]): W[] {
+  const cellsOf = (w: WordSpan) =>
+    Array.from({ length: w.word.length }, (_, i) =>
+      w.direction === "across" ? key(w.x + i, w.y) : key(w.x, w.y + i),
+    );
+  const wordsAt = new Map<string, number[]>();
+  words.forEach((w, i) => {
+    for (const k of cellsOf(w)) wordsAt.set(k, [...(wordsAt.get(k) ?? []), i]);
+  });
+
+  const group = new Array<number>(words.length).fill(-1);
+  const sizes: number[] = [];
+  words.forEach((_, start) => {
+    if (group[start] !== -1) return;
+    const id = sizes.length;
+    sizes.push(0);
+    const stack = [start];
+    group[start] = id;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      sizes[id]++;
+      for (const k of cellsOf(words[i])) {
+        for (const j of wordsAt.get(k)!) {
+          if (group[j] === -1) {
+            group[j] = id;
+            stack.push(j);
+          }
+        }
+      }
+    }
+  });
+
+  const largest = sizes.indexOf(Math.max(...sizes));
+  return words.filter((_, i) => group[i] !== largest);
+}
+
+/** Verdict on a placement made by hand */
+export interface PlacementCheck {
+  /** The same rules as `canPlace`, plus: the word may not lie along another one */
+  valid: boolean;
+  /** Whether the crossword would stay in one piece */
+  connected: boolean;
+}
+
+/** The layout's words without `word`, and a grid of just those words */
+function without(result: CrosswordResult, word: string) {
+  return rebuildGrid(result.words.filter((w) => w.word !== word));
+}
+
+/**
+ * Check putting `word` (a placed word being moved, or a spare one) at
+ * (x, y) in `direction`. Other words stay where they are; a shape mask
+ * still has to hold every letter, but size limits don't apply to hand edits.
+ */
+export function checkPlacement(
+  result: CrosswordResult,
+  word: string,
+  x: number,
+  y: number,
+  direction: Direction,
+): PlacementCheck {
+  const { grid, placed } = without(result, word);
+  const limits = result.mask
+    ? {
+        mask: maskCellsOnGrid(result.mask),
+        extent: measureLayout(placed, grid),
+      }
+    : undefined;
+  const crossings = canPlace(grid, word, x, y, direction, limits);
+  if (!crossings || crossings.length === word.length) {
+    return { valid: false, connected: false };
+  }
+  return {
+    valid: true,
+    connected: looseWords([...placed, { word, x, y, direction }]).length === 0,
+  };
+}
+
+/**
+ * Put `word` at (x, y) in `direction` by hand: a placed word moves there,
+ * a spare one from `unplacedDetails` joins the grid. Returns null if
+ * `checkPlacement` rejects the spot; a spot that splits the crossword is
+ * allowed, so words can be rearranged one at a time.
+ */
+export function moveWord(
+  result: CrosswordResult,
+  word: string,
+  x: number,
+  y: number,
+  direction: Direction,
+  options: EditOptions = {},
+): CrosswordResult | null {
+  const source =
+    result.words.find((w) => w.word === word) ??
+    result.unplacedDetails.find((u) => u.spare?.word === word)?.spare;
+  if (!source || !checkPlacement(result, word, x, y, direction).valid) {
+    return null;
+  }
+  const { grid, placed } = without(result, word);
+  placeWord(grid, word, x, y, direction);
+  placed.push({
+    word,
+    label: source.label,
+    clue: source.clue,
+    breaks: source.breaks,
+    x,
+    y,
+    direction,
+    number: 0,
+  });
+  const unplacedDetails = result.unplacedDetails.filter(
+    (u) => u.spare?.word !== word,
+  );
+  return finish(result, grid, placed, unplacedDetails, options);
+}
+
+/**
+ * Take a placed word off the grid by hand. It goes to `unplacedDetails`
+ * as `detached`, ready to be placed again with `moveWord`.
+ */
+export function detachWord(
+  result: CrosswordResult,
+  word: string,
+  options: EditOptions = {},
+): CrosswordResult {
+  const detached = result.words.find((w) => w.word === word);
+  if (!detached) return result;
+  const { grid, placed } = without(result, word);
+  const spare: SpareWord = {
+    word,
+    label: detached.label,
+    clue: detached.clue,
+    breaks: detached.breaks,
+  };
+  return finish(
+    result,
+    grid,
+    placed,
+    [
+      { word: detached.label, reason: "detached", spare },
+      ...result.unplacedDetails,
+    ],
+    options,
+  );
+}
@@ -0,0 +1,287 @@
+import type {
+  AlphabetSettings,
+  FillDirection,
+  FillwordMode,
+  FillwordResult,
+  FillwordWord,
+  UnplacedWord,
+  WordEntry,
+} from "./types";
+import { createRandom, randomSeed, shuffle, type Random } from "./random";
+import { normaliseEntriesWithDrops, type NormalisedEntry } from "./grid";
+import { resolveAlphabet } from "./alphabet";
+
+/** Options for `generateFillword` */
+export interface FillwordOptions {
+  /** Seed for the pseudo-random generator; a fresh one is picked if omitted */
+  seed?: number;
+  /** Letters to normalise words to (default: detected from the words) */
+  alphabet?: AlphabetSettings;
+  mode?: FillwordMode;
+  /** Allowed directions in `straight` mode (default: all eight) */
+  directions?: FillDirection[];
+}
+
+/** Step of each straight direction */
+export const FILL_DIRECTION_STEPS: Record<
+  FillDirection,
+  { dx: number; dy: number }
+> = {
+  right: { dx: 1, dy: 0 },
+  left: { dx: -1, dy: 0 },
+  down: { dx: 0, dy: 1 },
+  up: { dx: 0, dy: -1 },
+  "down-right": { dx: 1, dy: 1 },
+  "down-left": { dx: -1, dy: 1 },
+  "up-right": { dx: 1, dy: -1 },
+  "up-left": { dx: -1, dy: -1 },
+};
+
+const ALL_DIRECTIONS = Object.keys(FILL_DIRECTION_STEPS) as FillDirection[];
+
+/** Placement attempts at each grid size before the grid grows */
+const ATTEMPTS_PER_SIZE = 20;
+/** How many times the grid may grow past its starting size */
+const MAX_GROWTH = 10;
+/** Path extensions tried per word in `snake` mode before giving up on it */
+const SNAKE_STEP_BUDGET = 2000;
+
+type Board = (string | null)[][];
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Pick a random straight placement for `word`. Cells must be empty or
+ * already hold the same letter, so words may cross. At least one cell must
+ * be empty, so a word never hides wholly inside another one.
+ */
+function placeStraight(
+  board: Board,
+  word: string,
+  directions: FillDirection[],
+  random: Random,
+): Point[] | null {
+  const height = board.length;
+  const width = board[0].length;
+  const options: Point[][] = [];
+
+  for (const direction of directions) {
+    const { dx, dy } = FILL_DIRECTION_STEPS[direction];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const endX = x + dx * (word.length - 1);
+        const endY = y + dy * (word.length - 1);
+        if (endX < 0 || endX >= width || endY < 0 || endY >= height) continue;
+        const cells: Point[] = [];
+        for (let i = 0; i < word.length; i++) {
+          const cx = x + dx * i;
+          const cy = y + dy * i;
+          const existing = board[cy][cx];
+          if (existing !== null && existing !== word[i]) break;
+          cells.push({ x: cx, y: cy });
+        }
+        if (
+          cells.length === word.length &&
+          cells.some((p) => board[p.y][p.x] === null)
+        ) {
+          options.push(cells);
+        }
+      }
+    }
+  }
+
+  if (options.length === 0) return null;
+  return options[Math.floor(random() * options.length)];
+}
+
+/**
+ * Find a path of side-by-side empty cells for `word` by randomised
+ * depth-first search. Gives up after `SNAKE_STEP_BUDGET` steps.
+ */
+function placeSnake(
+  board: Board,
+  word: string,
+  random: Random,
+): Point[] | null {
+  const height = board.length;
+  const width = board[0].length;
+  const path: Point[] = [];
+  const onPath = new Set<string>();
+  let steps = 0;
+
+  const free = (x: number, y: number) =>
+    x >= 0 &&
+    x < width &&
+    y >= 0 &&
+    y < height &&
+    board[y][x] === null &&
+    !onPath.has(`${x},${y}`);
+
+  const extend = (x: number, y: number): boolean => {
+    if (++steps > SNAKE_STEP_BUDGET) return false;
+    path.push({ x, y });
+    onPath.add(`${x},${y}`);
+    if (path.length === word.length) return true;
+    const next = shuffle(
+      [
+        { x: x + 1, y },
+        { x: x - 1, y },
+        { x, y: y + 1 },
+        { x, y: y - 1 },
+      ],
+      random,
+    );
+    for (const p of next) {
+      if (free(p.x, p.y) && extend(p.x, p.y)) return true;
+    }
+    path.pop();
+    onPath.delete(`${x},${y}`);
+    return false;
+  };
+
+  const starts: Point[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (board[y][x] === null) starts.push({ x, y });
+    }
+  }
+  for (const start of shuffle(starts, random)) {
+    if (steps > SNAKE_STEP_BUDGET) break;
+    if (extend(start.x, start.y)) return path;
+  }
+  return null;
+}
+
+interface FillAttempt {
+  board: Board;
+  words: FillwordWord[];
+  unplaced: NormalisedEntry[];
+}
+
+function attemptFill(
+  entries: NormalisedEntry[],
+  size: number,
+  mode: FillwordMode,
+  directions: FillDirection[],
+  random: Random,
+): FillAttempt {
+  const board: Board = Array.from({ length: size }, () =>
+    new Array<string | null>(size).fill(null),
+  );
+  const words: FillwordWord[] = [];
+  const unplaced: NormalisedEntry[] = [];
+
+  for (const entry of entries) {
+    const cells =
+      mode === "snake"
+        ? placeSnake(board, entry.upper, random)
+        : placeStraight(board, entry.upper, directions, random);
+    if (!cells) {
+      unplaced.push(entry);
+      continue;
+    }
+    cells.forEach(({ x, y }, i) => (board[y][x] = entry.upper[i]));
+    words.push({
+      word: entry.upper,
+      label: entry.original,
+      clue: entry.clue,
+      cells,
+    });
+  }
+
+  return { board, words, unplaced };
+}
+
+/**
+ * Generate a fillword (word search): every word is hidden in a square grid of
+ * letters, and the remaining cells get filler letters. The grid starts just
+ * big enough for the words and grows until they all fit, trying several
+ * random arrangements at each size. Filler letters are drawn from the
+ * alphabet of the words, half of them from the words' own letters so the
+ * filler doesn't stand out.
+ */
+export function generateFillword(
+  inputEntries: WordEntry[],
+  options: FillwordOptions = {},
+): FillwordResult {
+  const { mode = "straight" } = options;
+  const directions =
+    options.directions && options.directions.length > 0
+      ? options.directions
+      : ALL_DIRECTIONS;
+  const seed = options.seed ?? randomSeed();
+  const random = createRandom(seed);
+
+  // Longest words first — they are the hardest to fit
+  const alphabet = resolveAlphabet(
+    options.alphabet,
+    inputEntries.map((e) => e.word),
+  );
+  const { entries: normalised, dropped } = normaliseEntriesWithDrops(
+    inputEntries,
+    alphabet,
+  );
+  const entries = [...normalised].sort(
+    (a, b) => b.upper.length - a.upper.length,
+  );
+  const totalLetters = entries.reduce((sum, e) => sum + e.upper.length, 0);
+  const longest = entries[0]?.upper.length ?? 0;
+
+  // Straight words need a side as long as the word; snakes can bend
+  const startSize = Math.max(
+    2,
+    Math.ceil(Math.sqrt(totalLetters * (mode === "snake" ? 1.1 : 1.5))),
+    mode === "straight" ? longest : 0,
+  );
+
+  // The longest-first ordering goes first, then shuffled ones
+  let best = attemptFill(entries, startSize, mode, directions, random);
+  search: for (
+    let size = startSize;
+    best.unplaced.length > 0 && size <= startSize + MAX_GROWTH;
+    size++
+  ) {
+    for (let attempt = 0; attempt < ATTEMPTS_PER_SIZE; attempt++) {
+      const ordering = shuffle(entries, random);
+      const fill = attemptFill(ordering, size, mode, directions, random);
+      if (fill.words.length > best.words.length) best = fill;
+      if (fill.unplaced.length === 0) break search;
+    }
+  }
+
+  const { board, words, unplaced } = best;
+  const wordLetters = words.map((w) => w.word).join("");
+  const letters = board.map((row) =>
+    row.map((letter) => {
+      if (letter !== null) return letter;
+      const source =
+        wordLetters.length > 0 && random() < 0.5
+          ? wordLetters
+          : alphabet.letters;
+      return source[Math.floor(random() * source.length)];
+    }),
+  );
+
+  const unplacedDetails: UnplacedWord[] = [
+    ...unplaced.map((e) => ({
+      word: e.original,
+      reason: "no-placement" as const,
+    })),
+    ...dropped,
+  ];
+
+  return {
+    mode,
+    width: board[0]?.length ?? 0,
+    height: board.length,
+    letters,
+    words,
+    unplacedWords: unplacedDetails.map((u) => u.word),
+    unplacedDetails,
+    seed,
+    search: { mode: "greedy", optimal: unplaced.length === 0 },
+  };
+}
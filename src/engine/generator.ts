@@ -1,343 +1,276 @@
 import type {
   Direction,
-  PlacedWord,
   WordEntry,
   Cell,
   Grid,
   CrosswordResult,
+  GenerationOptions,
+  GenerationProgress,
+  UnplacedWord,
 } from "./types";
-
-const key = (x: number, y: number): string => `${x},${y}`;
-
-/**
- * Get the letter at a grid position, or undefined if empty.
- */
-function getCell(grid: Grid, x: number, y: number): Cell | undefined {
-  return grid.get(key(x, y));
-}
-
-/**
- * Check whether a word can be placed at (startX, startY) in the given direction.
- * Returns an array of intersection indices (positions in `word` that overlap existing letters)
- * or null if placement is impossible.
- */
-function canPlace(
-  grid: Grid,
-  word: string,
-  startX: number,
-  startY: number,
-  direction: Direction,
-): number[] | null {
-  const dx = direction === "across" ? 1 : 0;
-  const dy = direction === "down" ? 1 : 0;
-  const intersections: number[] = [];
-
-  // Check the cell just before the word — must be empty (no adjacent word bleeding in)
-  const beforeX = startX - dx;
-  const beforeY = startY - dy;
-  if (getCell(grid, beforeX, beforeY)) return null;
-
-  // Check the cell just after the word — must be empty
-  const afterX = startX + word.length * dx;
-  const afterY = startY + word.length * dy;
-  if (getCell(grid, afterX, afterY)) return null;
-
-  for (let i = 0; i < word.length; i++) {
-    const cx = startX + i * dx;
-    const cy = startY + i * dy;
-    const existing = getCell(grid, cx, cy);
-
-    if (existing) {
-      // Must match the letter
-      if (existing.letter !== word[i]) return null;
-      intersections.push(i);
-    } else {
-      // Perpendicular neighbours must be empty (so we don't create unintended adjacency)
-      const perpDx = direction === "across" ? 0 : 1;
-      const perpDy = direction === "down" ? 0 : 1;
-      const n1 = getCell(grid, cx + perpDx, cy + perpDy);
-      const n2 = getCell(grid, cx - perpDx, cy - perpDy);
-      if (n1 || n2) return null;
-    }
-  }
-
-  return intersections;
-}
-
-/**
- * Place a word onto the grid.
- */
-function placeWord(
-  grid: Grid,
-  word: string,
-  startX: number,
-  startY: number,
-  direction: Direction,
-): void {
-  const dx = direction === "across" ? 1 : 0;
-  const dy = direction === "down" ? 1 : 0;
-
-  for (let i = 0; i < word.length; i++) {
-    const cx = startX + i * dx;
-    const cy = startY + i * dy;
-    const k = key(cx, cy);
-    if (!grid.has(k)) {
-      grid.set(k, { letter: word[i], isLetter: true });
-    }
-  }
-}
-
-interface Candidate {
-  x: number;
-  y: number;
-  direction: Direction;
-  intersections: number[];
-}
-
-/**
- * Find all valid placements for a word on the current grid.
- */
-function findCandidates(grid: Grid, word: string): Candidate[] {
-  const candidates: Candidate[] = [];
-
-  // For each cell in the grid, try to place the word through that cell
-  grid.forEach((cell, k) => {
-    const [xStr, yStr] = k.split(",");
-    const gx = parseInt(xStr, 10);
-    const gy = parseInt(yStr, 10);
-
-    for (let i = 0; i < word.length; i++) {
-      if (word[i] !== cell.letter) continue;
-
-      // Try across: the word would start so that position i lands on (gx, gy)
-      const ax = gx - i;
-      const ay = gy;
-      const acrossResult = canPlace(grid, word, ax, ay, "across");
-      if (acrossResult && acrossResult.length > 0) {
-        candidates.push({
-          x: ax,
-          y: ay,
-          direction: "across",
-          intersections: acrossResult,
-        });
-      }
-
-      // Try down
-      const dx = gx;
-      const dy = gy - i;
-      const downResult = canPlace(grid, word, dx, dy, "down");
-      if (downResult && downResult.length > 0) {
-        candidates.push({
-          x: dx,
-          y: dy,
-          direction: "down",
-          intersections: downResult,
-        });
-      }
-    }
-  });
-
-  // Deduplicate
-  const seen = new Set<string>();
-  return candidates.filter((c) => {
-    const id = `${c.x},${c.y},${c.direction}`;
-    if (seen.has(id)) return false;
-    seen.add(id);
-    return true;
-  });
-}
-
-/**
- * Score a candidate placement — higher is better.
- * Prefers more intersections and more central placements.
- */
-function scoreCandidate(candidate: Candidate): number {
-  let score = candidate.intersections.length * 100;
-  // Small bonus for positions closer to origin (keeps grid compact)
-  score -= (Math.abs(candidate.x) + Math.abs(candidate.y)) * 0.1;
-  return score;
-}
-
-/**
- * Compute the bounding box of all cells in the grid.
- */
-function computeBounds(grid: Grid) {
-  let minX = Infinity;
-  let minY = Infinity;
-  let maxX = -Infinity;
-  let maxY = -Infinity;
-
-  grid.forEach((_cell, k) => {
-    const [xStr, yStr] = k.split(",");
-    const x = parseInt(xStr, 10);
-    const y = parseInt(yStr, 10);
-    if (x < minX) minX = x;
-    if (y < minY) minY = y;
-    if (x > maxX) maxX = x;
-    if (y > maxY) maxY = y;
-  });
-
-  if (minX === Infinity) {
-    return { minX: 0, minY: 0, maxX: 0, maxY: 0, width: 1, height: 1 };
-  }
-
-  return {
-    minX,
-    minY,
-    maxX,
-    maxY,
-    width: maxX - minX + 1,
-    height: maxY - minY + 1,
-  };
-}
-
-/**
- * Assign clue numbers to placed words.
- * Numbers are assigned in reading order (top-to-bottom, left-to-right).
- */
-function assignNumbers(words: PlacedWord[], grid: Grid): void {
-  // Collect all starting positions
-  const starts = new Map<string, PlacedWord[]>();
-  for (const w of words) {
-    const k = key(w.x, w.y);
-    if (!starts.has(k)) starts.set(k, []);
-    starts.get(k)!.push(w);
-  }
-
-  // Sort starting positions by reading order (y first, then x)
-  const sortedKeys = Array.from(starts.keys()).sort((a, b) => {
-    const [ax, ay] = a.split(",").map(Number);
-    const [bx, by] = b.split(",").map(Number);
-    if (ay !== by) return ay - by;
-    return ax - bx;
-  });
-
-  let num = 1;
-  for (const k of sortedKeys) {
-    const group = starts.get(k)!;
-    for (const w of group) {
-      w.number = num;
-    }
-    // Set the number on the grid cell too
-    const cell = grid.get(k);
-    if (cell) {
-      cell.number = num;
-    }
-    num++;
-  }
-}
-
-/**
- * Shuffle an array (Fisher-Yates) — returns a new array.
- */
-function shuffle<T>(arr: T[]): T[] {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
-
-/**
- * Normalised internal entry used during generation.
- */
-interface NormalisedEntry {
-  upper: string;
-  original: string;
-  clue: string;
-}
+import { createRandom, randomSeed, shuffle, type Random } from "./random";
+import {
+  key,
+  placeWord,
+  findCandidates,
+  fitsLimits,
+  computeBounds,
+  assignNumbers,
+  normaliseEntriesWithDrops,
+  spareWord,
+  type Extent,
+  type NormalisedEntry,
+} from "./grid";
+import { searchBacktracking } from "./search";
+import { explainUnplaced, type SizeLimits } from "./diagnostics";
+import { createLayoutPool } from "./variants";
+import { resolveAlphabet } from "./alphabet";
+import {
+  placePinnedWords,
+  clonePinned,
+  hasFixedPosition,
+  allowsDirection,
+} from "./pins";
+import {
+  MASK_FILL_WEIGHT,
+  coverageGain,
+  maskBounds,
+  maskCellsOnGrid,
+  maskCoverage,
+  maskStarts,
+} from "./mask";
+import {
+  DEFAULT_OBJECTIVES,
+  emptyStats,
+  statsWithWord,
+  measureLayout,
+  objectiveScore,
+  scoreCandidate,
+  type LayoutStats,
+} from "./scoring";
+
+/** Default time budget for the backtracking search */
+const DEFAULT_TIME_BUDGET_MS = 3000;
+/** Minimum interval between progress reports during the backtracking search */
+const PROGRESS_INTERVAL_MS = 100;
+/** How many of the most central starts the first word picks from in later attempts */
+const MASK_START_CHOICES = 5;
+
+const flip = (direction: Direction): Direction =>
+  direction === "across" ? "down" : "across";
 
 /**
  * Main crossword generator.
  * Takes an array of WordEntry objects (word + clue) and attempts to arrange them
  * into a crossword. Uses a greedy approach with multiple random restarts to find
- * a good layout.
+ * a good layout. Candidates and whole attempts are ranked by the weighted
+ * `objectives` (see `scoring.ts`), after the number of placed words.
+ * With `maxWidth` / `maxHeight` set, no placement may grow the grid past that size.
+ * With a `mask`, every letter must fall inside the shape instead, and layouts
+ * that spread over more of the shape (see `maskCoverage`) are preferred.
+ * Words with a pinned position are placed first and kept in place in every
+ * attempt; words with a pinned direction are only placed in that direction.
+ * Throws if pinned words conflict with each other.
+ * In `backtrack` mode the best greedy layout is then improved by
+ * a time-bounded backtracking search (see `searchBacktracking`).
+ * All randomness comes from a seeded generator, so passing the returned `seed`
+ * back in reproduces the same layout — except that a backtracking search cut
+ * short by its time budget may stop at a different point on a slower machine.
+ * `onProgress` is called after every attempt and periodically during the search.
  */
 export function generateCrossword(
   inputEntries: WordEntry[],
-  maxAttempts: number = 50,
+  options: GenerationOptions = {},
+  onProgress?: (progress: GenerationProgress) => void,
 ): CrosswordResult {
-  // Normalise words: uppercase, trim, filter empty/single-char, remove duplicates
-  const seen = new Set<string>();
-  const entries: NormalisedEntry[] = [];
-  for (const entry of inputEntries) {
-    const trimmed = entry.word.trim();
-    if (trimmed.length < 2) continue;
-    const upper = trimmed.toUpperCase().replace(/[^A-ZА-ЯЁ0-9]/gi, "");
-    if (upper.length < 2) continue;
-    if (seen.has(upper)) continue;
-    seen.add(upper);
-    entries.push({ upper, original: trimmed, clue: entry.clue.trim() });
-  }
+  return generateCrosswordLayouts(inputEntries, options, onProgress)[0];
+}
+
+/**
+ * Like `generateCrossword`, but returns up to `options.alternatives` structurally
+ * different layouts (best first) instead of only the best one. Layouts that
+ * differ only by translation or by transposition count as the same.
+ * Always returns at least one result.
+ */
+export function generateCrosswordLayouts(
+  inputEntries: WordEntry[],
+  options: GenerationOptions = {},
+  onProgress?: (progress: GenerationProgress) => void,
+): CrosswordResult[] {
+  const {
+    maxAttempts = 50,
+    mode = "greedy",
+    timeBudgetMs = DEFAULT_TIME_BUDGET_MS,
+    objectives = DEFAULT_OBJECTIVES,
+    alternatives = 1,
+    mask,
+  } = options;
+  const sizeLimits: SizeLimits = mask
+    ? {
+        maxWidth: mask.width,
+        maxHeight: mask.height,
+        mask: maskCellsOnGrid(mask),
+      }
+    : { maxWidth: options.maxWidth, maxHeight: options.maxHeight };
+  const maskCells = sizeLimits.mask;
+  const layoutScore = (stats: LayoutStats, grid: Grid) =>
+    objectiveScore(stats, objectives) +
+    (maskCells ? MASK_FILL_WEIGHT * maskCoverage(grid, maskCells) : 0);
+  const emptyBounds = mask
+    ? maskBounds(mask)
+    : { minX: 0, minY: 0, maxX: 0, maxY: 0, width: 0, height: 0 };
+  const seed = options.seed ?? randomSeed();
+  const random = createRandom(seed);
+
+  const { entries, dropped } = normaliseEntriesWithDrops(
+    inputEntries,
+    resolveAlphabet(
+      options.alphabet,
+      inputEntries.map((e) => e.word),
+    ),
+  );
+  const uppers = entries.map((e) => e.upper);
+  const explain = (
+    entry: NormalisedEntry,
+    grid: Grid,
+    extent: Extent,
+  ): UnplacedWord => ({
+    word: entry.original,
+    ...explainUnplaced(
+      entry,
+      grid,
+      extent,
+      sizeLimits,
+      uppers.filter((u) => u !== entry.upper),
+    ),
+    spare: spareWord(entry),
+  });
 
   if (entries.length === 0) {
-    return {
-      words: [],
-      grid: new Map(),
-      bounds: { minX: 0, minY: 0, maxX: 0, maxY: 0, width: 0, height: 0 },
-      unplacedWords: inputEntries
-        .map((e) => e.word.trim())
-        .filter((w) => w.length > 0),
-    };
+    return [
+      {
+        words: [],
+        grid: new Map(),
+        bounds: emptyBounds,
+        unplacedWords: dropped.map((u) => u.word),
+        unplacedDetails: dropped,
+        metrics: { width: 0, height: 0, placed: 0, intersections: 0, score: 0 },
+        seed,
+        search: { mode, optimal: true },
+        mask,
+      },
+    ];
   }
 
-  // Sort longest first as base ordering (longer words are harder to place later)
-  const sorted = [...entries].sort((a, b) => b.upper.length - a.upper.length);
+  // Words pinned to a position go down first and stay put in every attempt
+  const pinned = placePinnedWords(entries, sizeLimits);
+  const free = entries.filter((e) => !hasFixedPosition(e));
+
+  // Sort longest first as base ordering (longer words are harder to place later);
+  // words with a pinned direction come before the rest
+  const sorted = [...free].sort(
+    (a, b) =>
+      Number(!!b.pin) - Number(!!a.pin) || b.upper.length - a.upper.length,
+  );
+  const directionPinned = sorted.filter((e) => e.pin);
+  const unpinned = sorted.filter((e) => !e.pin);
 
-  let bestResult: {
-    placed: PlacedWord[];
-    grid: Grid;
-    unplaced: string[];
-  } | null = null;
+  const pool = createLayoutPool(Math.max(1, alternatives));
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const ordering = attempt === 0 ? sorted : shuffle(sorted);
-    const grid: Grid = new Map();
-    const placed: PlacedWord[] = [];
+    const ordering =
+      attempt === 0
+        ? sorted
+        : [...shuffle(directionPinned, random), ...shuffle(unpinned, random)];
+    const { grid, placed } = clonePinned(pinned);
     const unplaced: string[] = [];
+    let stats = measureLayout(placed, grid);
 
     for (let wi = 0; wi < ordering.length; wi++) {
-      const { upper: word, original, clue } = ordering[wi];
+      const entry = ordering[wi];
+      const { upper: word, original, clue } = entry;
 
       if (grid.size === 0) {
-        // Place first word horizontally at origin
-        const dir: Direction = Math.random() < 0.5 ? "across" : "down";
-        placeWord(grid, word, 0, 0, dir);
+        // Place first word at origin, in a random direction that fits the size limits
+        const preferred: Direction = random() < 0.5 ? "across" : "down";
+        const directions: Direction[] = entry.pin
+          ? [entry.pin.direction]
+          : [preferred, flip(preferred)];
+        let start: { x: number; y: number; direction: Direction } | null = null;
+        if (maskCells) {
+          // Inside a shape the origin may be outside it: start near the middle
+          start = firstInMask(
+            maskCells,
+            word.length,
+            directions,
+            attempt,
+            random,
+          );
+        } else {
+          const dir = directions.find((d) =>
+            fitsLimits(word.length, 0, 0, d, { ...sizeLimits, extent: stats }),
+          );
+          if (dir) start = { x: 0, y: 0, direction: dir };
+        }
+        if (!start) {
+          unplaced.push(original);
+          continue;
+        }
+        const { x, y, direction } = start;
+        placeWord(grid, word, x, y, direction);
+        stats = statsWithWord(stats, word.length, x, y, direction, 0);
         placed.push({
           word,
           label: original,
           clue,
-          x: 0,
-          y: 0,
-          direction: dir,
+          breaks: entry.breaks,
+          x,
+          y,
+          direction,
           number: 0,
         });
         continue;
       }
 
       // Find all candidate placements
-      const candidates = findCandidates(grid, word);
+      const candidates = findCandidates(grid, word, {
+        ...sizeLimits,
+        extent: stats,
+      }).filter((c) => allowsDirection(entry, c.direction));
       if (candidates.length === 0) {
         unplaced.push(original);
         continue;
       }
 
       // Score and pick the best (with slight randomness for variety)
-      candidates.sort((a, b) => scoreCandidate(b) - scoreCandidate(a));
+      const score = (c: (typeof candidates)[number]) =>
+        scoreCandidate(c, word.length, stats, objectives) +
+        (maskCells
+          ? MASK_FILL_WEIGHT * coverageGain(grid, maskCells, word.length, c)
+          : 0);
+      candidates.sort((a, b) => score(b) - score(a));
 
       // Pick from top candidates with some randomness on non-first attempts
       let pick = candidates[0];
       if (attempt > 0 && candidates.length > 1) {
         const topN = Math.min(3, candidates.length);
-        pick = candidates[Math.floor(Math.random() * topN)];
+        pick = candidates[Math.floor(random() * topN)];
       }
 
       placeWord(grid, word, pick.x, pick.y, pick.direction);
+      stats = statsWithWord(
+        stats,
+        word.length,
+        pick.x,
+        pick.y,
+        pick.direction,
+        pick.intersections.length,
+      );
       placed.push({
         word,
         label: original,
         clue,
+        breaks: entry.breaks,
         x: pick.x,
         y: pick.y,
         direction: pick.direction,
@@ -345,38 +278,137 @@ export function generateCrossword(
       });
     }
 
-    // Is this the best result so far?
-    if (!bestResult || placed.length > bestResult.placed.length) {
-      bestResult = {
-        placed: [...placed],
-        grid: new Map(grid),
-        unplaced: [...unplaced],
-      };
-      // If we placed everything, stop early
-      if (unplaced.length === 0) break;
+    // Keep the best few distinct attempts: more words first, then the objectives
+    pool.offer({ placed, grid, unplaced }, layoutScore(stats, grid));
+
+    onProgress?.({
+      attempt: attempt + 1,
+      totalAttempts: maxAttempts,
+      bestPlaced: pool.best()?.layout.placed.length ?? 0,
+      totalWords: entries.length,
+    });
+  }
+
+  const greedyBest = pool.best()?.layout ?? null;
+  let optimal = greedyBest !== null && greedyBest.unplaced.length === 0;
+
+  if (mode === "backtrack" && !optimal) {
+    const started = Date.now();
+    let lastReport = started;
+    const outcome = searchBacktracking(sorted, greedyBest, {
+      pinned: pinned.placed,
+      deadline: started + timeBudgetMs,
+      random,
+      objectives,
+      layoutScore,
+      sizeLimits,
+      onTick: (bestPlaced) => {
+        const now = Date.now();
+        if (now - lastReport < PROGRESS_INTERVAL_MS) return;
+        lastReport = now;
+        onProgress?.({
+          attempt: maxAttempts,
+          totalAttempts: maxAttempts,
+          bestPlaced,
+          totalWords: entries.length,
+          elapsedMs: now - started,
+          timeBudgetMs,
+        });
+      },
+    });
+    if (outcome.layout && outcome.layout !== greedyBest) {
+      const { placed, grid } = outcome.layout;
+      pool.offer(
+        outcome.layout,
+        layoutScore(measureLayout(placed, grid), grid),
+      );
     }
+    optimal = outcome.exhausted;
   }
 
-  if (!bestResult) {
-    return {
-      words: [],
-      grid: new Map(),
-      bounds: { minX: 0, minY: 0, maxX: 0, maxY: 0, width: 0, height: 0 },
-      unplacedWords: entries.map((e) => e.original),
-    };
+  const kept = pool.layouts();
+  if (kept.length === 0) {
+    return [
+      {
+        words: [],
+        grid: new Map(),
+        bounds: emptyBounds,
+        unplacedWords: [
+          ...entries.map((e) => e.original),
+          ...dropped.map((u) => u.word),
+        ],
+        unplacedDetails: [
+          ...entries.map((e) => explain(e, new Map(), emptyStats())),
+          ...dropped,
+        ],
+        metrics: { width: 0, height: 0, placed: 0, intersections: 0, score: 0 },
+        seed,
+        search: { mode, optimal },
+        mask,
+      },
+    ];
   }
 
-  // Assign clue numbers
-  assignNumbers(bestResult.placed, bestResult.grid);
+  const entryOf = new Map(entries.map((e) => [e.original, e]));
+  const bestPlaced = kept[0].layout.placed.length;
 
-  const bounds = computeBounds(bestResult.grid);
+  return kept.map(({ layout, score }) => {
+    // Assign clue numbers
+    assignNumbers(layout.placed, layout.grid);
+
+    // With a mask the whole shape is shown, not just the letters
+    const bounds = mask ? maskBounds(mask) : computeBounds(layout.grid);
+    const stats = measureLayout(layout.placed, layout.grid);
+    const unplacedDetails = [
+      ...layout.unplaced.map((original) =>
+        explain(entryOf.get(original)!, layout.grid, stats),
+      ),
+      ...dropped,
+    ];
+
+    return {
+      words: layout.placed,
+      grid: layout.grid,
+      bounds,
+      unplacedWords: unplacedDetails.map((u) => u.word),
+      unplacedDetails,
+      metrics: {
+        width: bounds.width,
+        height: bounds.height,
+        placed: layout.placed.length,
+        intersections: stats.intersections,
+        score,
+      },
+      seed,
+      // Alternatives with as many words as the best share its optimality
+      search: { mode, optimal: optimal && layout.placed.length === bestPlaced },
+      mask,
+    };
+  });
+}
 
-  return {
-    words: bestResult.placed,
-    grid: bestResult.grid,
-    bounds,
-    unplacedWords: bestResult.unplaced,
-  };
+/**
+ * Start of the first word in a masked layout: the most central position
+ * inside the shape in the first attempt, one of the few most central ones
+ * in later attempts. Null if the word fits the shape in no allowed direction.
+ */
+function firstInMask(
+  cells: ReadonlySet<string>,
+  length: number,
+  directions: Direction[],
+  attempt: number,
+  random: Random,
+): { x: number; y: number; direction: Direction } | null {
+  for (const direction of directions) {
+    const starts = maskStarts(cells, length, direction);
+    if (starts.length === 0) continue;
+    const pick =
+      attempt === 0
+        ? 0
+        : Math.floor(random() * Math.min(MASK_START_CHOICES, starts.length));
+    return { ...starts[pick], direction };
+  }
+  return null;
 }
 
 /**
@@ -0,0 +1,66 @@
+import { generateCrosswordLayouts } from "./generator";
+import { generateKeywordCrossword } from "./keyword";
+import { generateChainword } from "./chainword";
+import { generateFillword } from "./fillword";
+import { generateDenseCrossword } from "./dense";
+import { generateScanword } from "./scanword";
+import type { WorkerRequest, WorkerResponse } from "./workerProtocol";
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+/** Run a job and build its final message */
+function run(request: WorkerRequest): WorkerResponse {
+  const { id } = request;
+  switch (request.type) {
+    case "generate": {
+      const results = generateCrosswordLayouts(
+        request.entries,
+        request.options,
+        (progress) => post({ type: "progress", id, progress }),
+      );
+      return { type: "result", id, results };
+    }
+    case "generate-keyword": {
+      const result = generateKeywordCrossword(
+        request.keyword,
+        request.entries,
+        request.options,
+      );
+      return { type: "result", id, results: [result] };
+    }
+    case "generate-chain": {
+      const chain = generateChainword(request.entries, request.options);
+      return { type: "chain-result", id, chain };
+    }
+    case "generate-fillword": {
+      const fillword = generateFillword(request.entries, request.options);
+      return { type: "fillword-result", id, fillword };
+    }
+    case "generate-dense": {
+      const result = generateDenseCrossword(
+        request.entries,
+        request.dictionary,
+        request.options,
+      );
+      return { type: "result", id, results: [result] };
+    }
+    case "generate-scanword": {
+      const result = generateScanword(request.entries, request.options);
+      return { type: "result", id, results: [result] };
+    }
+  }
+}
+
+self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  const { id } = request;
+  try {
+    post(run(request));
+  } catch (err) {
+    post({
+      type: "error",
+      id,
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+});
@@ -0,0 +1,237 @@
+import type {
+  ChainwordResult,
+  CrosswordResult,
+  FillwordResult,
+  GenerationOptions,
+  GenerationProgress,
+  WordEntry,
+} from "./types";
+import type { KeywordOptions } from "./keyword";
+import type { ChainwordOptions } from "./chainword";
+import type { FillwordOptions } from "./fillword";
+import type { DenseOptions } from "./dense";
+import type { ScanwordOptions } from "./scanword";
+import type { WorkerRequest, WorkerResponse } from "./workerProtocol";
+
+/** Handle for running the generator off the main thread */
+export interface GeneratorClient {
+  /**
+   * Generate crossword layouts in the worker (best first, see `generateCrosswordLayouts`).
+   * Resolves with null if the job was cancelled.
+   */
+  generate(
+    entries: WordEntry[],
+    options: GenerationOptions,
+    onProgress?: (progress: GenerationProgress) => void,
+  ): Promise<CrosswordResult[] | null>;
+  /**
+   * Generate a keyword crossword in the worker (see `generateKeywordCrossword`).
+   * Resolves with null if the job was cancelled.
+   */
+  generateKeyword(
+    keyword: string,
+    entries: WordEntry[],
+    options: KeywordOptions,
+  ): Promise<CrosswordResult | null>;
+  /**
+   * Generate a chainword in the worker (see `generateChainword`).
+   * Resolves with null if the job was cancelled.
+   */
+  generateChain(
+    entries: WordEntry[],
+    options: ChainwordOptions,
+  ): Promise<ChainwordResult | null>;
+  /**
+   * Generate a fillword in the worker (see `generateFillword`).
+   * Resolves with null if the job was cancelled.
+   */
+  generateFillword(
+    entries: WordEntry[],
+    options: FillwordOptions,
+  ): Promise<FillwordResult | null>;
+  /**
+   * Fill a dense crossword in the worker (see `generateDenseCrossword`).
+   * Resolves with null if the job was cancelled.
+   */
+  generateDense(
+    entries: WordEntry[],
+    dictionary: string[],
+    options: DenseOptions,
+  ): Promise<CrosswordResult | null>;
+  /**
+   * Generate a scanword in the worker (see `generateScanword`).
+   * Resolves with null if the job was cancelled.
+   */
+  generateScanword(
+    entries: WordEntry[],
+    options: ScanwordOptions,
+  ): Promise<CrosswordResult | null>;
+  /** Cancel the running job, if any */
+  cancel(): void;
+}
+
+/** Worker request without its job id */
+type JobRequest<R = WorkerRequest> = R extends WorkerRequest
+  ? Omit<R, "id">
+  : never;
+
+/** Final message of a successful job */
+type JobResult = Exclude<WorkerResponse, { type: "progress" | "error" }>;
+
+interface PendingJob {
+  id: number;
+  resolve: (result: JobResult | null) => void;
+  reject: (err: Error) => void;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+function spawnWorker(): Worker {
+  return new Worker(new URL("./generator.worker.ts", import.meta.url), {
+    type: "module",
+  });
+}
+
+/**
+ * Create a client that runs one generation job at a time in a Web Worker.
+ * The engine runs synchronously inside the worker, so it cannot receive a
+ * cancel message mid-run: cancelling terminates the worker and a fresh one
+ * is spawned for the next job. Starting a new job cancels the previous one.
+ */
+export function createGeneratorClient(): GeneratorClient {
+  let worker: Worker | null = null;
+  let pending: PendingJob | null = null;
+  let nextId = 1;
+
+  const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    // Ignore messages from jobs that were already cancelled
+    if (!pending || message.id !== pending.id) return;
+
+    switch (message.type) {
+      case "progress":
+        pending.onProgress?.(message.progress);
+        break;
+      case "error":
+        pending.reject(new Error(message.message));
+        pending = null;
+        break;
+      default:
+        // Any other message is the job's result
+        pending.resolve(message);
+        pending = null;
+        break;
+    }
+  };
+
+  const handleError = (event: ErrorEvent) => {
+    if (!pending) return;
+    pending.reject(new Error(event.message || "Ошибка в фоновом потоке"));
+    pending = null;
+    worker?.terminate();
+    worker = null;
+  };
+
+  const ensureWorker = (): Worker => {
+    if (!worker) {
+      worker = spawnWorker();
+      worker.addEventListener("message", handleMessage);
+      worker.addEventListener("error", handleError);
+    }
+    return worker;
+  };
+
+  const cancel = () => {
+    if (!pending) return;
+    pending.resolve(null);
+    pending = null;
+    worker?.terminate();
+    worker = null;
+  };
+
+  const run = (
+    job: JobRequest,
+    onProgress?: (progress: GenerationProgress) => void,
+  ): Promise<JobResult | null> => {
+    cancel();
+    return new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending = { id, resolve, reject, onProgress };
+      const request = { ...job, id } as WorkerRequest;
+      ensureWorker().postMessage(request);
+    });
+  };
+
+  const generate: GeneratorClient["generate"] = async (
+    entries,
+    options,
+    onProgress,
+  ) => {
+    const result = await run(
+      { type: "generate", entries, options },
+      onProgress,
+    );
+    return result?.type === "result" ? result.results : null;
+  };
+
+  const generateKeyword: GeneratorClient["generateKeyword"] = async (
+    keyword,
+    entries,
+    options,
+  ) => {
+    const result = await run({
+      type: "generate-keyword",
+      keyword,
+      entries,
+      options,
+    });
+    return result?.type === "result" ? result.results[0] : null;
+  };
+
+  const generateChain: GeneratorClient["generateChain"] = async (
+    entries,
+    options,
+  ) => {
+    const result = await run({ type: "generate-chain", entries, options });
+    return result?.type === "chain-result" ? result.chain : null;
+  };
+
+  const generateFillword: GeneratorClient["generateFillword"] = async (
+    entries,
+    options,
+  ) => {
+    const result = await run({ type: "generate-fillword", entries, options });
+    return result?.type === "fillword-result" ? result.fillword : null;
+  };
+
+  const generateDense: GeneratorClient["generateDense"] = async (
+    entries,
+    dictionary,
+    options,
+  ) => {
+    const result = await run({
+      type: "generate-dense",
+      entries,
+      dictionary,
+      options,
+    });
+    return result?.type === "result" ? result.results[0] : null;
+  };
+
+  const generateScanword: GeneratorClient["generateScanword"] = async (
+    entries,
+    options,
+  ) => {
+    const result = await run({ type: "generate-scanword", entries, options });
+    return result?.type === "result" ? result.results[0] : null;
+  };
+
+  return {
+    generate,
+    generateKeyword,
+    generateChain,
+    generateFillword,
+    generateDense,
+    generateScanword,
+    cancel,
+  };
+}
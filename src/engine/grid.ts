@@ -0,0 +1,448 @@
+import type {
+  Direction,
+  PlacedWord,
+  Cell,
+  Grid,
+  SpareWord,
+  UnplacedWord,
+  WordBreak,
+  WordEntry,
+  WordPin,
+} from "./types";
+import { resolveAlphabet, type Alphabet } from "./alphabet";
+
+export const key = (x: number, y: number): string => `${x},${y}`;
+
+/**
+ * Get the letter at a grid position, or undefined if empty.
+ */
+export function getCell(grid: Grid, x: number, y: number): Cell | undefined {
+  return grid.get(key(x, y));
+}
+
+/** Bounding box of the letters on the grid (infinite when the grid is empty) */
+export interface Extent {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Restrictions on where words may go, on top of the crossing rules.
+ * With `maxWidth` / `maxHeight` set, a placement may not grow the letters'
+ * bounding box (`extent`) past that size. With `mask` set, every letter must
+ * land on one of its cells.
+ */
+export interface PlacementLimits {
+  maxWidth?: number;
+  maxHeight?: number;
+  /** Grid keys of the cells letters may go in (see `maskCellsOnGrid`) */
+  mask?: ReadonlySet<string>;
+  extent: Extent;
+}
+
+/**
+ * Check whether a word of `length` letters at (startX, startY) keeps the grid
+ * within the size limits and inside the shape mask.
+ */
+export function fitsLimits(
+  length: number,
+  startX: number,
+  startY: number,
+  direction: Direction,
+  limits: PlacementLimits,
+): boolean {
+  const { extent, maxWidth, maxHeight } = limits;
+  const endX = direction === "across" ? startX + length - 1 : startX;
+  const endY = direction === "down" ? startY + length - 1 : startY;
+  const width = Math.max(extent.maxX, endX) - Math.min(extent.minX, startX) + 1;
+  const height =
+    Math.max(extent.maxY, endY) - Math.min(extent.minY, startY) + 1;
+  if (maxWidth !== undefined && width > maxWidth) return false;
+  if (maxHeight !== undefined && height > maxHeight) return false;
+  if (limits.mask) {
+    for (let i = 0; i < length; i++) {
+      const x = direction === "across" ? startX + i : startX;
+      const y = direction === "down" ? startY + i : startY;
+      if (!limits.mask.has(key(x, y))) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Check whether a word can be placed at (startX, startY) in the given direction.
+ * Returns an array of intersection indices (positions in `word` that overlap existing letters)
+ * or null if placement is impossible.
+ */
+export function canPlace(
+  grid: Grid,
+  word: string,
+  startX: number,
+  startY: number,
+  direction: Direction,
+  limits?: PlacementLimits,
+): number[] | null {
+  const dx = direction === "across" ? 1 : 0;
+  const dy = direction === "down" ? 1 : 0;
+  const intersections: number[] = [];
+
+  if (limits && !fitsLimits(word.length, startX, startY, direction, limits)) {
+    return null;
+  }
+
+  // Check the cell just before the word — must be empty (no adjacent word bleeding in)
+  const beforeX = startX - dx;
+  const beforeY = startY - dy;
+  if (getCell(grid, beforeX, beforeY)) return null;
+
+  // Check the cell just after the word — must be empty
+  const afterX = startX + word.length * dx;
+  const afterY = startY + word.length * dy;
+  if (getCell(grid, afterX, afterY)) return null;
+
+  for (let i = 0; i < word.length; i++) {
+    const cx = startX + i * dx;
+    const cy = startY + i * dy;
+    const existing = getCell(grid, cx, cy);
+
+    if (existing) {
+      // Must match the letter
+      if (existing.letter !== word[i]) return null;
+      intersections.push(i);
+    } else {
+      // Perpendicular neighbours must be empty (so we don't create unintended adjacency)
+      const perpDx = direction === "across" ? 0 : 1;
+      const perpDy = direction === "down" ? 0 : 1;
+      const n1 = getCell(grid, cx + perpDx, cy + perpDy);
+      const n2 = getCell(grid, cx - perpDx, cy - perpDy);
+      if (n1 || n2) return null;
+    }
+  }
+
+  return intersections;
+}
+
+/**
+ * Place a word onto the grid.
+ * Returns the keys of the cells it created, so the placement can be undone.
+ */
+export function placeWord(
+  grid: Grid,
+  word: string,
+  startX: number,
+  startY: number,
+  direction: Direction,
+): string[] {
+  const dx = direction === "across" ? 1 : 0;
+  const dy = direction === "down" ? 1 : 0;
+  const created: string[] = [];
+
+  for (let i = 0; i < word.length; i++) {
+    const cx = startX + i * dx;
+    const cy = startY + i * dy;
+    const k = key(cx, cy);
+    if (!grid.has(k)) {
+      grid.set(k, { letter: word[i], isLetter: true });
+      created.push(k);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Undo a placement by removing the cells `placeWord` created for it.
+ */
+export function removeCells(grid: Grid, keys: string[]): void {
+  for (const k of keys) grid.delete(k);
+}
+
+export interface Candidate {
+  x: number;
+  y: number;
+  direction: Direction;
+  intersections: number[];
+}
+
+/**
+ * Find all valid placements for a word on the current grid.
+ */
+export function findCandidates(
+  grid: Grid,
+  word: string,
+  limits?: PlacementLimits,
+): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  // For each cell in the grid, try to place the word through that cell
+  grid.forEach((cell, k) => {
+    const [xStr, yStr] = k.split(",");
+    const gx = parseInt(xStr, 10);
+    const gy = parseInt(yStr, 10);
+
+    for (let i = 0; i < word.length; i++) {
+      if (word[i] !== cell.letter) continue;
+
+      // Try across: the word would start so that position i lands on (gx, gy)
+      const ax = gx - i;
+      const ay = gy;
+      const acrossResult = canPlace(grid, word, ax, ay, "across", limits);
+      if (acrossResult && acrossResult.length > 0) {
+        candidates.push({
+          x: ax,
+          y: ay,
+          direction: "across",
+          intersections: acrossResult,
+        });
+      }
+
+      // Try down
+      const dx = gx;
+      const dy = gy - i;
+      const downResult = canPlace(grid, word, dx, dy, "down", limits);
+      if (downResult && downResult.length > 0) {
+        candidates.push({
+          x: dx,
+          y: dy,
+          direction: "down",
+          intersections: downResult,
+        });
+      }
+    }
+  });
+
+  // Deduplicate
+  const seen = new Set<string>();
+  return candidates.filter((c) => {
+    const id = `${c.x},${c.y},${c.direction}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+/**
+ * Compute the bounding box of all cells in the grid
+ * (or of any other map keyed by `key(x, y)`).
+ */
+export function computeBounds(grid: Map<string, unknown>) {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  grid.forEach((_cell, k) => {
+    const [xStr, yStr] = k.split(",");
+    const x = parseInt(xStr, 10);
+    const y = parseInt(yStr, 10);
+    if (x < minX) minX = x;
+    if (y < minY) minY = y;
+    if (x > maxX) maxX = x;
+    if (y > maxY) maxY = y;
+  });
+
+  if (minX === Infinity) {
+    return { minX: 0, minY: 0, maxX: 0, maxY: 0, width: 1, height: 1 };
+  }
+
+  return {
+    minX,
+    minY,
+    maxX,
+    maxY,
+    width: maxX - minX + 1,
+    height: maxY - minY + 1,
+  };
+}
+
+/**
+ * Assign clue numbers to placed words.
+ * Numbers are assigned in reading order (top-to-bottom, left-to-right).
+ */
+export function assignNumbers(words: PlacedWord[], grid: Grid): void {
+  // Collect all starting positions
+  const starts = new Map<string, PlacedWord[]>();
+  for (const w of words) {
+    const k = key(w.x, w.y);
+    if (!starts.has(k)) starts.set(k, []);
+    starts.get(k)!.push(w);
+  }
+
+  // Sort starting positions by reading order (y first, then x)
+  const sortedKeys = Array.from(starts.keys()).sort((a, b) => {
+    const [ax, ay] = a.split(",").map(Number);
+    const [bx, by] = b.split(",").map(Number);
+    if (ay !== by) return ay - by;
+    return ax - bx;
+  });
+
+  let num = 1;
+  for (const k of sortedKeys) {
+    const group = starts.get(k)!;
+    for (const w of group) {
+      w.number = num;
+    }
+    // Set the number on the grid cell too
+    const cell = grid.get(k);
+    if (cell) {
+      cell.number = num;
+    }
+    num++;
+  }
+}
+
+/**
+ * Normalised internal entry used during generation.
+ */
+export interface NormalisedEntry {
+  upper: string;
+  original: string;
+  clue: string;
+  pin?: WordPin;
+  /** Word breaks of a multi-word answer (see `findWordBreaks`) */
+  breaks?: WordBreak[];
+}
+
+/**
+ * Normalise a word for the grid: uppercase, folded, letters of the alphabet
+ * and digits only. Without an `alphabet` it is detected from the word itself.
+ */
+export function normaliseWord(
+  word: string,
+  alphabet: Alphabet = resolveAlphabet(undefined, [word]),
+): string {
+  return alphabet.normalise(word);
+}
+
+/** Dashes that join the parts of a hyphenated answer */
+const HYPHENS = "-‐‑‒–—";
+
+/**
+ * Find where the parts of a multi-word answer meet, counted in normalised
+ * letters: "ЧЁРНОЕ МОРЕ" breaks after 6 letters, "Нью-Йорк" after 3.
+ * A run of separators counts once, as a hyphen if it holds one.
+ * Separators before the first letter or after the last are ignored.
+ */
+export function findWordBreaks(word: string, alphabet: Alphabet): WordBreak[] {
+  const breaks: WordBreak[] = [];
+  let letters = 0;
+  let pending: WordBreak["kind"] | null = null;
+  for (const ch of word.trim().normalize("NFC")) {
+    if (HYPHENS.includes(ch)) {
+      pending = "hyphen";
+    } else if (/\s/.test(ch)) {
+      pending ??= "space";
+    } else {
+      const added = alphabet.normalise(ch).length;
+      if (added === 0) continue;
+      if (pending && letters > 0) breaks.push({ at: letters, kind: pending });
+      pending = null;
+      letters += added;
+    }
+  }
+  return breaks;
+}
+
+/**
+ * Characters of `word` the grid will drop: anything that is neither a letter
+ * of the alphabet, a digit nor a word separator. Each is listed once.
+ */
+export function strippedCharacters(word: string, alphabet: Alphabet): string[] {
+  const stripped = new Set<string>();
+  for (const ch of word.trim().normalize("NFC")) {
+    if (HYPHENS.includes(ch) || /\s/.test(ch)) continue;
+    if (alphabet.normalise(ch).length === 0) stripped.add(ch);
+  }
+  return Array.from(stripped);
+}
+
+/**
+ * Enumeration of an answer's parts, as printed after a clue: "6, 4" for two
+ * words, "3-5" for a hyphenated word, just the length for a single word.
+ */
+export function formatEnumeration(
+  length: number,
+  breaks: WordBreak[] = [],
+): string {
+  let text = "";
+  let start = 0;
+  for (const { at, kind } of breaks) {
+    text += `${at - start}${kind === "hyphen" ? "-" : ", "}`;
+    start = at;
+  }
+  return text + (length - start);
+}
+
+/**
+ * Normalise input entries: uppercase, trim, filter empty/single-char, remove duplicates.
+ * Without an `alphabet` it is detected from all the words together.
+ */
+export function normaliseEntries(
+  inputEntries: WordEntry[],
+  alphabet?: Alphabet,
+): NormalisedEntry[] {
+  return normaliseEntriesWithDrops(inputEntries, alphabet).entries;
+}
+
+/**
+ * Like `normaliseEntries`, but also reports the entries it drops: words
+ * with fewer than two letters (`too-short`) and repeats of an earlier word
+ * (`duplicate`). Blank entries are skipped silently.
+ */
+export function normaliseEntriesWithDrops(
+  inputEntries: WordEntry[],
+  alphabet: Alphabet = resolveAlphabet(
+    undefined,
+    inputEntries.map((e) => e.word),
+  ),
+): { entries: NormalisedEntry[]; dropped: UnplacedWord[] } {
+  const seen = new Map<string, string>();
+  const entries: NormalisedEntry[] = [];
+  const dropped: UnplacedWord[] = [];
+  for (const entry of inputEntries) {
+    const trimmed = entry.word.trim();
+    if (!trimmed) continue;
+    const upper = normaliseWord(trimmed, alphabet);
+    if (upper.length < 2) {
+      dropped.push({ word: trimmed, reason: "too-short" });
+      continue;
+    }
+    const first = seen.get(upper);
+    if (first !== undefined) {
+      dropped.push({ word: trimmed, reason: "duplicate", duplicateOf: first });
+      continue;
+    }
+    seen.set(upper, trimmed);
+    const breaks = findWordBreaks(trimmed, alphabet);
+    entries.push({
+      upper,
+      original: trimmed,
+      clue: entry.clue.trim(),
+      pin: entry.pin,
+      ...(breaks.length > 0 && { breaks }),
+    });
+  }
+  return { entries, dropped };
+}
+
+/** An entry that was left out, kept ready to be placed by hand */
+export function spareWord(entry: NormalisedEntry): SpareWord {
+  return {
+    word: entry.upper,
+    label: entry.original,
+    clue: entry.clue,
+    breaks: entry.breaks,
+  };
+}
+
+/**
+ * Intermediate layout produced by a search strategy, before numbering.
+ */
+export interface Layout {
+  placed: PlacedWord[];
+  grid: Grid;
+  /** Original spellings of the words left out */
+  unplaced: string[];
+}
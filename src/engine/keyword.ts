@@ -0,0 +1,183 @@
+import type {
+  AlphabetSettings,
+  CrosswordResult,
+  Grid,
+  PlacedWord,
+  UnplacedWord,
+  WordEntry,
+} from "./types";
+import { createRandom, randomSeed, shuffle, type Random } from "./random";
+import {
+  key,
+  placeWord,
+  computeBounds,
+  assignNumbers,
+  normaliseEntriesWithDrops,
+  normaliseWord,
+  type NormalisedEntry,
+} from "./grid";
+import { measureLayout } from "./scoring";
+import { resolveAlphabet } from "./alphabet";
+
+/** Options for `generateKeywordCrossword` */
+export interface KeywordOptions {
+  /** Seed for the pseudo-random generator; a fresh one is picked if omitted */
+  seed?: number;
+  /** Letters to normalise words to (default: detected from the words) */
+  alphabet?: AlphabetSettings;
+}
+
+/**
+ * Assign one entry to each keyword letter so that as many letters as possible
+ * are covered (maximum bipartite matching, Kuhn's algorithm).
+ * Returns, for each keyword position, the index of its entry or -1.
+ */
+function matchLetters(
+  keyword: string,
+  entries: NormalisedEntry[],
+  random: Random,
+): number[] {
+  const options = Array.from(keyword, (letter) =>
+    shuffle(
+      entries.map((_, i) => i).filter((i) => entries[i].upper.includes(letter)),
+      random,
+    ),
+  );
+  const rowOf = new Array<number>(entries.length).fill(-1);
+
+  const augment = (row: number, visited: Set<number>): boolean => {
+    for (const e of options[row]) {
+      if (visited.has(e)) continue;
+      visited.add(e);
+      if (rowOf[e] === -1 || augment(rowOf[e], visited)) {
+        rowOf[e] = row;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  // Letters with fewer options first — they are the hardest to cover
+  const rows = shuffle(
+    Array.from(keyword, (_, i) => i),
+    random,
+  ).sort((a, b) => options[a].length - options[b].length);
+  for (const row of rows) augment(row, new Set());
+
+  const entryOf = new Array<number>(keyword.length).fill(-1);
+  rowOf.forEach((row, e) => {
+    if (row !== -1) entryOf[row] = e;
+  });
+  return entryOf;
+}
+
+/**
+ * Position of `letter` in `word` closest to the middle, so answers hang
+ * evenly on both sides of the keyword column.
+ */
+function crossingIndex(word: string, letter: string): number {
+  const middle = (word.length - 1) / 2;
+  let best = -1;
+  for (let i = 0; i < word.length; i++) {
+    if (word[i] !== letter) continue;
+    if (best === -1 || Math.abs(i - middle) < Math.abs(best - middle)) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Generate a classic keyword crossword («кроссворд с ключевым словом»).
+ * The keyword runs down column 0; each row holds one across answer that
+ * crosses the keyword at that row's letter. Rows sit right under each other,
+ * so the usual no-touching rule does not apply here. The keyword gets no clue.
+ * Keyword letters that no entry contains (or that lose out to other letters
+ * for the same entries) are reported in `keyword.uncovered`.
+ */
+export function generateKeywordCrossword(
+  keywordText: string,
+  inputEntries: WordEntry[],
+  options: KeywordOptions = {},
+): CrosswordResult {
+  const seed = options.seed ?? randomSeed();
+  const random = createRandom(seed);
+  const alphabet = resolveAlphabet(options.alphabet, [
+    keywordText,
+    ...inputEntries.map((e) => e.word),
+  ]);
+  const keyword = normaliseWord(keywordText, alphabet);
+  const { entries: normalised, dropped } = normaliseEntriesWithDrops(
+    inputEntries,
+    alphabet,
+  );
+  const entries = normalised.filter((e) => e.upper !== keyword);
+
+  const entryOf = matchLetters(keyword, entries, random);
+
+  const grid: Grid = new Map();
+  const placed: PlacedWord[] = [];
+  const uncovered: { index: number; letter: string }[] = [];
+
+  for (let row = 0; row < keyword.length; row++) {
+    const letter = keyword[row];
+    const e = entryOf[row];
+    if (e === -1) {
+      // Keep the keyword letter on the grid so the column stays whole
+      grid.set(key(0, row), { letter, isLetter: true });
+      uncovered.push({ index: row, letter });
+      continue;
+    }
+    const entry = entries[e];
+    const x = -crossingIndex(entry.upper, letter);
+    placeWord(grid, entry.upper, x, row, "across");
+    placed.push({
+      word: entry.upper,
+      label: entry.original,
+      clue: entry.clue,
+      breaks: entry.breaks,
+      x,
+      y: row,
+      direction: "across",
+      number: 0,
+    });
+  }
+
+  assignNumbers(placed, grid);
+
+  const used = new Set(entryOf);
+  const unplacedDetails: UnplacedWord[] = entries
+    .filter((_, i) => !used.has(i))
+    .map((e) => ({
+      word: e.original,
+      reason: Array.from(keyword).some((l) => e.upper.includes(l))
+        ? "not-needed"
+        : "no-placement",
+    }));
+  unplacedDetails.push(...dropped);
+
+  const bounds =
+    grid.size > 0
+      ? computeBounds(grid)
+      : { minX: 0, minY: 0, maxX: 0, maxY: 0, width: 0, height: 0 };
+  const stats = measureLayout(placed, grid);
+
+  return {
+    words: placed,
+    grid,
+    bounds,
+    unplacedWords: unplacedDetails.map((u) => u.word),
+    unplacedDetails,
+    metrics: {
+      width: bounds.width,
+      height: bounds.height,
+      placed: placed.length,
+      intersections: stats.intersections,
+      score: 0,
+    },
+    seed,
+    // A maximum matching covers as many keyword letters as possible
+    search: { mode: "exact", optimal: true },
+    keyword: { word: keyword, x: 0, y: 0, uncovered },
+  };
+}
@@ -0,0 +1,199 @@
+import type { Direction, Grid, MaskShape, ShapeMask } from "./types";
+import { key, type Candidate } from "./grid";
+
+/** Side of built-in masks when none is given */
+export const DEFAULT_MASK_SIZE = 15;
+/** Weight of filling the shape mask, on top of the layout objectives */
+export const MASK_FILL_WEIGHT = 3;
+
+/**
+ * Grid position of the mask's top-left cell. The mask is centred on the
+ * origin, so pins at the centre and the tie-break towards the origin in
+ * `scoreCandidate` work the same as without a mask.
+ */
+export function maskOffset(mask: ShapeMask): { x: number; y: number } {
+  return { x: -Math.floor(mask.width / 2), y: -Math.floor(mask.height / 2) };
+}
+
+/** Grid keys of the mask's cells, for `PlacementLimits.mask` */
+export function maskCellsOnGrid(mask: ShapeMask): Set<string> {
+  const offset = maskOffset(mask);
+  return new Set(
+    mask.cells.map((k) => {
+      const [x, y] = k.split(",").map(Number);
+      return key(x + offset.x, y + offset.y);
+    }),
+  );
+}
+
+/** Bounding box of the mask's rectangle on the grid */
+export function maskBounds(mask: ShapeMask) {
+  const { x, y } = maskOffset(mask);
+  return {
+    minX: x,
+    minY: y,
+    maxX: x + mask.width - 1,
+    maxY: y + mask.height - 1,
+    width: mask.width,
+    height: mask.height,
+  };
+}
+
+/**
+ * Every start position where a word of `length` letters lies wholly inside
+ * the mask, nearest the origin first (measured from the word's middle).
+ */
+export function maskStarts(
+  cells: ReadonlySet<string>,
+  length: number,
+  direction: Direction,
+): { x: number; y: number }[] {
+  const dx = direction === "across" ? 1 : 0;
+  const dy = direction === "down" ? 1 : 0;
+  const starts: { x: number; y: number; distance: number }[] = [];
+  cells.forEach((k) => {
+    const [x, y] = k.split(",").map(Number);
+    for (let i = 1; i < length; i++) {
+      if (!cells.has(key(x + i * dx, y + i * dy))) return;
+    }
+    const middle = (length - 1) / 2;
+    starts.push({
+      x,
+      y,
+      distance: Math.abs(x + middle * dx) + Math.abs(y + middle * dy),
+    });
+  });
+  return starts
+    .sort((a, b) => a.distance - b.distance || a.y - b.y || a.x - b.x)
+    .map(({ x, y }) => ({ x, y }));
+}
+
+/** Whether a mask cell is a letter or touches one, diagonals included */
+function isCovered(grid: Grid, x: number, y: number): boolean {
+  for (let ny = y - 1; ny <= y + 1; ny++) {
+    for (let nx = x - 1; nx <= x + 1; nx++) {
+      if (grid.has(key(nx, ny))) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * How well the letters fill the shape, from 0 to 1: the share of mask cells
+ * that hold a letter or touch one. Crosswords can't fill a shape solidly, so
+ * a cell next to a letter counts as filled too.
+ */
+export function maskCoverage(grid: Grid, cells: ReadonlySet<string>): number {
+  if (cells.size === 0) return 0;
+  let covered = 0;
+  cells.forEach((k) => {
+    const [x, y] = k.split(",").map(Number);
+    if (isCovered(grid, x, y)) covered++;
+  });
+  return covered / cells.size;
+}
+
+/**
+ * Increase of `maskCoverage` if a word of `length` letters went down at the
+ * candidate's position.
+ */
+export function coverageGain(
+  grid: Grid,
+  cells: ReadonlySet<string>,
+  length: number,
+  candidate: Candidate,
+): number {
+  if (cells.size === 0) return 0;
+  const dx = candidate.direction === "across" ? 1 : 0;
+  const dy = candidate.direction === "down" ? 1 : 0;
+  const gained = new Set<string>();
+  for (let i = 0; i < length; i++) {
+    const cx = candidate.x + i * dx;
+    const cy = candidate.y + i * dy;
+    for (let ny = cy - 1; ny <= cy + 1; ny++) {
+      for (let nx = cx - 1; nx <= cx + 1; nx++) {
+        const k = key(nx, ny);
+        if (cells.has(k) && !gained.has(k) && !isCovered(grid, nx, ny)) {
+          gained.add(k);
+        }
+      }
+    }
+  }
+  return gained.size / cells.size;
+}
+
+/** Whether the point (u, v), both in [-1, 1] with v pointing down, is inside a shape */
+type ShapeTest = (u: number, v: number) => boolean;
+
+/** Inside test for a polygon given as [u, v] corners */
+function insidePolygon(points: [number, number][], u: number, v: number) {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [ui, vi] = points[i];
+    const [uj, vj] = points[j];
+    if (vi > v !== vj > v && u < ((uj - ui) * (v - vi)) / (vj - vi) + ui) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Corners of a five-pointed star, point up; inner radius is wide enough for words */
+const STAR_POINTS: [number, number][] = Array.from({ length: 10 }, (_, i) => {
+  const radius = i % 2 === 0 ? 1 : 0.5;
+  const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+  return [radius * Math.cos(angle), 0.1 + radius * Math.sin(angle)];
+});
+
+/** Three tiers of branches on a trunk */
+const TREE_TIERS = [
+  { top: -1, bottom: -0.35, halfWidth: 0.55 },
+  { top: -0.6, bottom: 0.15, halfWidth: 0.78 },
+  { top: -0.15, bottom: 0.65, halfWidth: 1 },
+];
+
+const SHAPE_TESTS: Record<Exclude<MaskShape, "custom">, ShapeTest> = {
+  heart: (u, v) => {
+    const x = u * 1.2;
+    const y = 0.15 - v * 1.15;
+    return (x * x + y * y - 1) ** 3 - x * x * y ** 3 <= 0;
+  },
+  star: (u, v) => insidePolygon(STAR_POINTS, u, v),
+  tree: (u, v) => {
+    if (v >= 0.6) return Math.abs(u) <= 0.2;
+    return TREE_TIERS.some(
+      ({ top, bottom, halfWidth }) =>
+        v >= top &&
+        v <= bottom &&
+        Math.abs(u) <= 0.1 + ((v - top) / (bottom - top)) * (halfWidth - 0.1),
+    );
+  },
+};
+
+/**
+ * Draw a built-in shape on a `size`×`size` grid: a cell is inside when its
+ * centre is. A custom mask comes out empty, ready to be painted.
+ */
+export function builtInMask(shape: MaskShape, size: number): ShapeMask {
+  const cells: string[] = [];
+  if (shape !== "custom") {
+    const inside = SHAPE_TESTS[shape];
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (inside(((x + 0.5) / size) * 2 - 1, ((y + 0.5) / size) * 2 - 1)) {
+          cells.push(key(x, y));
+        }
+      }
+    }
+  }
+  return { shape, width: size, height: size, cells };
+}
+
+/** Mask of another size with the cells that still fit, for editing a custom mask */
+export function resizeMask(mask: ShapeMask, size: number): ShapeMask {
+  const cells = mask.cells.filter((k) => {
+    const [x, y] = k.split(",").map(Number);
+    return x < size && y < size;
+  });
+  return { ...mask, width: size, height: size, cells };
+}
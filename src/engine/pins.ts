@@ -0,0 +1,123 @@
+import type { Direction, Grid, PlacedWord, WordPin } from "./types";
+import { canPlace, fitsLimits, placeWord, type NormalisedEntry } from "./grid";
+import { measureLayout } from "./scoring";
+import type { SizeLimits } from "./diagnostics";
+
+/** Words pinned to fixed positions, already placed on a grid */
+export interface PinnedLayout {
+  grid: Grid;
+  placed: PlacedWord[];
+}
+
+/**
+ * Start cell of a pinned word, or null if the pin only fixes the direction.
+ * "centre" puts the middle letter of the word on the origin.
+ */
+export function pinStart(
+  length: number,
+  pin: WordPin,
+): { x: number; y: number } | null {
+  if (!pin.position) return null;
+  if (pin.position !== "centre") return pin.position;
+  const offset = -Math.floor((length - 1) / 2);
+  return pin.direction === "across" ? { x: offset, y: 0 } : { x: 0, y: offset };
+}
+
+/**
+ * Whether an entry may be placed in `direction` (pinned words keep their direction).
+ */
+export function allowsDirection(
+  entry: NormalisedEntry,
+  direction: Direction,
+): boolean {
+  return !entry.pin || entry.pin.direction === direction;
+}
+
+/**
+ * Whether an entry is pinned to a fixed position.
+ */
+export function hasFixedPosition(entry: NormalisedEntry): boolean {
+  return entry.pin?.position !== undefined;
+}
+
+function toPlacedWord(
+  entry: NormalisedEntry,
+  x: number,
+  y: number,
+  direction: Direction,
+): PlacedWord {
+  return {
+    word: entry.upper,
+    label: entry.original,
+    clue: entry.clue,
+    breaks: entry.breaks,
+    x,
+    y,
+    direction,
+    number: 0,
+  };
+}
+
+/**
+ * Place every entry pinned to a fixed position, in list order.
+ * Throws an error naming the words if two pins overlap on different letters
+ * or touch each other, or if a pin does not fit the size limits.
+ */
+export function placePinnedWords(
+  entries: NormalisedEntry[],
+  sizeLimits: SizeLimits,
+): PinnedLayout {
+  const grid: Grid = new Map();
+  const placed: PlacedWord[] = [];
+
+  for (const entry of entries) {
+    if (!entry.pin) continue;
+    const start = pinStart(entry.upper.length, entry.pin);
+    if (!start) continue;
+    const { direction } = entry.pin;
+
+    const extent = measureLayout(placed, grid);
+    if (
+      !fitsLimits(entry.upper.length, start.x, start.y, direction, {
+        ...sizeLimits,
+        extent,
+      })
+    ) {
+      throw new Error(
+        sizeLimits.mask
+          ? `Закреплённое слово «${entry.original}» выходит за пределы фигуры.`
+          : `Закреплённое слово «${entry.original}» не помещается в сетку ` +
+              `${sizeLimits.maxWidth ?? "∞"}×${sizeLimits.maxHeight ?? "∞"} ` +
+              "вместе с остальными закреплёнными словами.",
+      );
+    }
+
+    if (!canPlace(grid, entry.upper, start.x, start.y, direction)) {
+      // Find the pinned word it clashes with, for a clear message
+      const other = placed.find((p) => {
+        const alone: Grid = new Map();
+        placeWord(alone, p.word, p.x, p.y, p.direction);
+        return !canPlace(alone, entry.upper, start.x, start.y, direction);
+      });
+      throw new Error(
+        `Закреплённые слова «${other?.label ?? "?"}» и «${entry.original}» ` +
+          "конфликтуют: они пересекаются на разных буквах или соприкасаются.",
+      );
+    }
+
+    placeWord(grid, entry.upper, start.x, start.y, direction);
+    placed.push(toPlacedWord(entry, start.x, start.y, direction));
+  }
+
+  return { grid, placed };
+}
+
+/**
+ * Copy a pinned layout so an attempt can build on it without touching the original.
+ */
+export function clonePinned(pinned: PinnedLayout): PinnedLayout {
+  return {
+    grid: new Map(Array.from(pinned.grid, ([k, cell]) => [k, { ...cell }])),
+    placed: pinned.placed.map((w) => ({ ...w })),
+  };
+}
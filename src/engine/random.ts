@@ -0,0 +1,50 @@
+/** Source of pseudo-random floats in [0, 1), like `Math.random` */
+export type Random = () => number;
+
+/** Largest seed value — seeds are unsigned 32-bit integers */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32).
+ * The same seed always yields the same sequence, which makes layouts reproducible.
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh seed for a new, non-reproduced generation.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED) >>> 0;
+}
+
+/**
+ * Parse a user-entered seed. Returns null if the text is not a valid seed.
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const value = Number(trimmed);
+  if (!Number.isSafeInteger(value) || value > MAX_SEED) return null;
+  return value;
+}
+
+/**
+ * Shuffle an array (Fisher-Yates) — returns a new array.
+ */
+export function shuffle<T>(arr: T[], random: Random): T[] {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
@@ -0,0 +1,72 @@
+import type { CrosswordResult, RevealPreset, RevealedLetters } from "./types";
+import { key } from "./grid";
+import { createRandom, shuffle } from "./random";
+
+/** Share of letter cells revealed by the `percent` preset unless set otherwise */
+export const DEFAULT_REVEAL_PERCENT = 20;
+
+/** Grid keys in reading order, so the pick doesn't depend on the Map's order */
+function readingOrder(keys: string[]): string[] {
+  return keys
+    .map((k) => ({ k, xy: k.split(",").map(Number) }))
+    .sort((a, b) => a.xy[1] - b.xy[1] || a.xy[0] - b.xy[0])
+    .map(({ k }) => k);
+}
+
+/**
+ * Pick the cells a preset reveals. The `percent` pick is seeded by the
+ * layout's seed, so the same layout always gets the same letters.
+ */
+export function revealCells(
+  result: CrosswordResult,
+  preset: RevealPreset,
+  percent: number = DEFAULT_REVEAL_PERCENT,
+): string[] {
+  switch (preset) {
+    case "percent": {
+      const cells = readingOrder(Array.from(result.grid.keys()));
+      const count = Math.round((cells.length * percent) / 100);
+      return readingOrder(
+        shuffle(cells, createRandom(result.seed)).slice(0, count),
+      );
+    }
+    case "first-letters":
+      return readingOrder(
+        Array.from(new Set(result.words.map((w) => key(w.x, w.y)))),
+      );
+    case "crossings": {
+      const seen = new Set<string>();
+      const crossings = new Set<string>();
+      for (const w of result.words) {
+        for (let i = 0; i < w.word.length; i++) {
+          const k =
+            w.direction === "across" ? key(w.x + i, w.y) : key(w.x, w.y + i);
+          if (seen.has(k)) crossings.add(k);
+          seen.add(k);
+        }
+      }
+      return readingOrder(Array.from(crossings));
+    }
+    case "manual":
+      return [];
+  }
+}
+
+/** Settings and cells for a preset, ready to store in `CrosswordResult.revealed` */
+export function revealLetters(
+  result: CrosswordResult,
+  preset: RevealPreset,
+  percent: number = DEFAULT_REVEAL_PERCENT,
+): RevealedLetters {
+  return { preset, percent, cells: revealCells(result, preset, percent) };
+}
+
+/**
+ * Revealed cells that still hold a letter: after the layout is edited by
+ * hand some of them may be gone.
+ */
+export function revealedCells(result: CrosswordResult): Set<string> {
+  return new Set(
+    (result.revealed?.cells ?? []).filter((k) => result.grid.has(k)),
+  );
+}
@@ -0,0 +1,333 @@
+import type {
+  AlphabetSettings,
+  CellClue,
+  ClueCell,
+  CrosswordResult,
+  Direction,
+  Grid,
+  PlacedWord,
+  WordEntry,
+} from "./types";
+import { createRandom, randomSeed, shuffle } from "./random";
+import {
+  key,
+  getCell,
+  placeWord,
+  computeBounds,
+  assignNumbers,
+  normaliseEntriesWithDrops,
+  type Candidate,
+} from "./grid";
+import { measureLayout } from "./scoring";
+import { resolveAlphabet } from "./alphabet";
+import { explainUnplaced } from "./diagnostics";
+
+/** Options for `generateScanword` */
+export interface ScanwordOptions {
+  /** Seed for the pseudo-random generator; a fresh one is picked if omitted */
+  seed?: number;
+  /** Letters to normalise words to (default: detected from the words) */
+  alphabet?: AlphabetSettings;
+  maxAttempts?: number;
+}
+
+/** Directions of the clues in each reserved clue cell, by grid key */
+type ClueSlots = Map<string, Direction[]>;
+
+const step = (direction: Direction) =>
+  direction === "across" ? { dx: 1, dy: 0 } : { dx: 0, dy: 1 };
+
+/** Grid key of the clue cell a word starting at (x, y) needs */
+const clueKey = (x: number, y: number, direction: Direction) => {
+  const { dx, dy } = step(direction);
+  return key(x - dx, y - dy);
+};
+
+/**
+ * Like `canPlace`, but for scanwords: the cell before the word is reserved for
+ * its clue, so it must not hold a letter. It may already be a clue cell with
+ * one clue in the other direction — the two clues then share the cell.
+ * Letters never go on clue cells, and clue cells may touch letters anywhere,
+ * since they are not part of any word.
+ */
+function canPlaceScan(
+  grid: Grid,
+  clues: ClueSlots,
+  word: string,
+  startX: number,
+  startY: number,
+  direction: Direction,
+): number[] | null {
+  const { dx, dy } = step(direction);
+
+  // The clue cell
+  if (getCell(grid, startX - dx, startY - dy)) return null;
+  const shared = clues.get(clueKey(startX, startY, direction));
+  if (shared && (shared.length >= 2 || shared.includes(direction))) {
+    return null;
+  }
+
+  // The cell after the word must not continue it
+  if (getCell(grid, startX + word.length * dx, startY + word.length * dy)) {
+    return null;
+  }
+
+  const intersections: number[] = [];
+  for (let i = 0; i < word.length; i++) {
+    const cx = startX + i * dx;
+    const cy = startY + i * dy;
+    if (clues.has(key(cx, cy))) return null;
+    const existing = getCell(grid, cx, cy);
+    if (existing) {
+      if (existing.letter !== word[i]) return null;
+      intersections.push(i);
+    } else if (
+      getCell(grid, cx + dy, cy + dx) ||
+      getCell(grid, cx - dy, cy - dx)
+    ) {
+      // Perpendicular neighbours must not be letters
+      return null;
+    }
+  }
+  return intersections;
+}
+
+/** All placements of `word` crossing at least one letter on the grid */
+function findScanCandidates(
+  grid: Grid,
+  clues: ClueSlots,
+  word: string,
+): Candidate[] {
+  const candidates = new Map<string, Candidate>();
+  grid.forEach((cell, k) => {
+    const [gx, gy] = k.split(",").map(Number);
+    for (let i = 0; i < word.length; i++) {
+      if (word[i] !== cell.letter) continue;
+      for (const direction of ["across", "down"] as Direction[]) {
+        const { dx, dy } = step(direction);
+        const x = gx - i * dx;
+        const y = gy - i * dy;
+        const id = `${x},${y},${direction}`;
+        if (candidates.has(id)) continue;
+        const intersections = canPlaceScan(grid, clues, word, x, y, direction);
+        if (intersections && intersections.length > 0) {
+          candidates.set(id, { x, y, direction, intersections });
+        }
+      }
+    }
+  });
+  return Array.from(candidates.values());
+}
+
+/** Occupied cells (letters or clues) of a layout, for measuring its size */
+function occupied(grid: Grid, clues: ClueSlots): Map<string, unknown> {
+  return new Map<string, unknown>([...grid, ...clues]);
+}
+
+interface ScanLayout {
+  placed: PlacedWord[];
+  grid: Grid;
+  clues: ClueSlots;
+  unplaced: string[];
+  /** Cells of the bounding box, clue cells included */
+  area: number;
+}
+
+/**
+ * Generate a scanword («сканворд»): a crossword without a separate clue list,
+ * where every word's clue sits in a cell right before it — left of an across
+ * word, above a down word. Uses the same greedy restarts as
+ * `generateCrossword`, but placements are ranked to pack words tightly around
+ * the clue cells: crossings first, then clue cells shared by two words or
+ * hugging letters, then the least growth of the grid.
+ */
+export function generateScanword(
+  inputEntries: WordEntry[],
+  options: ScanwordOptions = {},
+): CrosswordResult {
+  const { maxAttempts = 50 } = options;
+  const seed = options.seed ?? randomSeed();
+  const random = createRandom(seed);
+  const alphabet = resolveAlphabet(
+    options.alphabet,
+    inputEntries.map((e) => e.word),
+  );
+  const { entries: normalised, dropped } = normaliseEntriesWithDrops(
+    inputEntries,
+    alphabet,
+  );
+  const entries = [...normalised].sort(
+    (a, b) => b.upper.length - a.upper.length,
+  );
+
+  let best: ScanLayout | null = null;
+
+  for (
+    let attempt = 0;
+    attempt < maxAttempts && entries.length > 0;
+    attempt++
+  ) {
+    const ordering = attempt === 0 ? entries : shuffle(entries, random);
+    const grid: Grid = new Map();
+    const clues: ClueSlots = new Map();
+    const placed: PlacedWord[] = [];
+    const unplaced: string[] = [];
+
+    const place = (
+      entry: (typeof entries)[number],
+      x: number,
+      y: number,
+      direction: Direction,
+    ) => {
+      placeWord(grid, entry.upper, x, y, direction);
+      const k = clueKey(x, y, direction);
+      clues.set(k, [...(clues.get(k) ?? []), direction]);
+      placed.push({
+        word: entry.upper,
+        label: entry.original,
+        clue: entry.clue,
+        breaks: entry.breaks,
+        x,
+        y,
+        direction,
+        number: 0,
+      });
+    };
+
+    for (const entry of ordering) {
+      if (grid.size === 0) {
+        place(entry, 0, 0, random() < 0.5 ? "across" : "down");
+        continue;
+      }
+
+      const before = computeBounds(occupied(grid, clues));
+      const score = (c: Candidate) => {
+        const { dx, dy } = step(c.direction);
+        const clueX = c.x - dx;
+        const clueY = c.y - dy;
+        const endX = c.x + dx * (entry.upper.length - 1);
+        const endY = c.y + dy * (entry.upper.length - 1);
+        const width =
+          Math.max(before.maxX, endX, clueX) -
+          Math.min(before.minX, c.x, clueX) +
+          1;
+        const height =
+          Math.max(before.maxY, endY, clueY) -
+          Math.min(before.minY, c.y, clueY) +
+          1;
+        const growth = width * height - before.width * before.height;
+        const shared = clues.has(key(clueX, clueY)) ? 1 : 0;
+        // Letters right next to the clue cell, other than the word's own first letter
+        const hugging = [
+          [clueX - 1, clueY],
+          [clueX, clueY - 1],
+          [clueX + dy, clueY + dx],
+        ].filter(([nx, ny]) => getCell(grid, nx, ny)).length;
+        return (
+          c.intersections.length * 10 + shared * 6 + hugging * 2 - growth * 0.5
+        );
+      };
+
+      const candidates = findScanCandidates(grid, clues, entry.upper).sort(
+        (a, b) => score(b) - score(a),
+      );
+      if (candidates.length === 0) {
+        unplaced.push(entry.original);
+        continue;
+      }
+      let pick = candidates[0];
+      if (attempt > 0 && candidates.length > 1) {
+        pick =
+          candidates[Math.floor(random() * Math.min(3, candidates.length))];
+      }
+      place(entry, pick.x, pick.y, pick.direction);
+    }
+
+    const { width, height } = computeBounds(occupied(grid, clues));
+    const layout = { placed, grid, clues, unplaced, area: width * height };
+    if (
+      !best ||
+      placed.length > best.placed.length ||
+      (placed.length === best.placed.length && layout.area < best.area)
+    ) {
+      best = layout;
+    }
+  }
+
+  if (!best) {
+    return {
+      words: [],
+      grid: new Map(),
+      bounds: { minX: 0, minY: 0, maxX: 0, maxY: 0, width: 0, height: 0 },
+      unplacedWords: dropped.map((u) => u.word),
+      unplacedDetails: dropped,
+      metrics: { width: 0, height: 0, placed: 0, intersections: 0, score: 0 },
+      seed,
+      search: { mode: "greedy", optimal: true },
+      clueCells: [],
+    };
+  }
+
+  const { placed, grid, clues, unplaced } = best;
+  assignNumbers(placed, grid);
+
+  // Across clues first in shared cells, as they are read first
+  const clueCells = new Map<string, ClueCell>();
+  const acrossFirst = [
+    ...placed.filter((w) => w.direction === "across"),
+    ...placed.filter((w) => w.direction === "down"),
+  ];
+  for (const w of acrossFirst) {
+    const k = clueKey(w.x, w.y, w.direction);
+    const [x, y] = k.split(",").map(Number);
+    const clue: CellClue = {
+      direction: w.direction,
+      text: w.clue,
+      number: w.number,
+    };
+    const cell = clueCells.get(k);
+    if (cell) cell.clues.push(clue);
+    else clueCells.set(k, { x, y, clues: [clue] });
+  }
+
+  const bounds = computeBounds(occupied(grid, clues));
+  const stats = measureLayout(placed, grid);
+  const entryOf = new Map(entries.map((e) => [e.original, e]));
+  const unplacedDetails = [
+    ...unplaced.map((word) => {
+      const entry = entryOf.get(word)!;
+      const others = entries.filter((e) => e.upper !== entry.upper);
+      return {
+        word,
+        ...explainUnplaced(
+          entry,
+          grid,
+          bounds,
+          {},
+          others.map((e) => e.upper),
+          // Clue cells take room too: only spots a scanword allows count
+          (upper) => findScanCandidates(grid, clues, upper),
+        ),
+      };
+    }),
+    ...dropped,
+  ];
+
+  return {
+    words: placed,
+    grid,
+    bounds,
+    unplacedWords: unplacedDetails.map((u) => u.word),
+    unplacedDetails,
+    metrics: {
+      width: bounds.width,
+      height: bounds.height,
+      placed: placed.length,
+      intersections: stats.intersections,
+      score: 0,
+    },
+    seed,
+    search: { mode: "greedy", optimal: unplaced.length === 0 },
+    clueCells: Array.from(clueCells.values()),
+  };
+}
@@ -0,0 +1,148 @@
+import type { Direction, Grid, LayoutObjectives, PlacedWord } from "./types";
+import type { Candidate } from "./grid";
+
+/** Objectives used when none are given */
+export const DEFAULT_OBJECTIVES: LayoutObjectives = {
+  compactness: 1,
+  aspectRatio: 0,
+  targetAspect: 1,
+  density: 2,
+  balance: 0.5,
+};
+
+/** Running totals of a layout that the objectives are computed from */
+export interface LayoutStats {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  /** Number of letter cells */
+  cells: number;
+  /** Number of cells shared by two words */
+  intersections: number;
+  across: number;
+  down: number;
+}
+
+/**
+ * Stats of a layout with no words in it.
+ */
+export function emptyStats(): LayoutStats {
+  return {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+    cells: 0,
+    intersections: 0,
+    across: 0,
+    down: 0,
+  };
+}
+
+/**
+ * Stats after adding a word at (x, y) that crosses `intersections` existing letters.
+ * Returns a new object; `stats` is left untouched.
+ */
+export function statsWithWord(
+  stats: LayoutStats,
+  length: number,
+  x: number,
+  y: number,
+  direction: Direction,
+  intersections: number,
+): LayoutStats {
+  const endX = direction === "across" ? x + length - 1 : x;
+  const endY = direction === "down" ? y + length - 1 : y;
+  return {
+    minX: Math.min(stats.minX, x),
+    minY: Math.min(stats.minY, y),
+    maxX: Math.max(stats.maxX, endX),
+    maxY: Math.max(stats.maxY, endY),
+    cells: stats.cells + length - intersections,
+    intersections: stats.intersections + intersections,
+    across: stats.across + (direction === "across" ? 1 : 0),
+    down: stats.down + (direction === "down" ? 1 : 0),
+  };
+}
+
+/**
+ * Compute the stats of a finished layout.
+ */
+export function measureLayout(placed: PlacedWord[], grid: Grid): LayoutStats {
+  let stats = emptyStats();
+  for (const w of placed) {
+    stats = statsWithWord(stats, w.word.length, w.x, w.y, w.direction, 0);
+  }
+  // Every letter beyond the number of cells sits on a shared cell
+  const letters = placed.reduce((sum, w) => sum + w.word.length, 0);
+  return { ...stats, cells: grid.size, intersections: letters - grid.size };
+}
+
+/**
+ * Weighted sum of the layout objectives — higher is better.
+ * Each objective is scaled to roughly [0, 1] before weighting:
+ * - compactness: share of the bounding box filled with letters
+ * - aspect ratio: closeness of width/height to the target (on a log scale)
+ * - density: intersections per placed word
+ * - balance: how evenly words split between across and down
+ */
+export function objectiveScore(
+  stats: LayoutStats,
+  objectives: LayoutObjectives,
+): number {
+  const words = stats.across + stats.down;
+  if (words === 0) return 0;
+
+  const width = stats.maxX - stats.minX + 1;
+  const height = stats.maxY - stats.minY + 1;
+
+  const compactness = stats.cells / (width * height);
+  const aspect = Math.exp(
+    -Math.abs(Math.log(width / height) - Math.log(objectives.targetAspect)),
+  );
+  const density = stats.intersections / words;
+  const balance = 1 - Math.abs(stats.across - stats.down) / words;
+
+  return (
+    objectives.compactness * compactness +
+    objectives.aspectRatio * aspect +
+    objectives.density * density +
+    objectives.balance * balance
+  );
+}
+
+/**
+ * Score a candidate placement — higher is better.
+ * Scores the layout the placement would produce; a tiny penalty for distance
+ * from the origin breaks ties in favour of central positions.
+ */
+export function scoreCandidate(
+  candidate: Candidate,
+  length: number,
+  stats: LayoutStats,
+  objectives: LayoutObjectives,
+): number {
+  const next = statsWithWord(
+    stats,
+    length,
+    candidate.x,
+    candidate.y,
+    candidate.direction,
+    candidate.intersections.length,
+  );
+  const distance = Math.abs(candidate.x) + Math.abs(candidate.y);
+  return objectiveScore(next, objectives) - distance * 1e-4;
+}
+
+/**
+ * Compare two layouts — positive if `a` is better.
+ * More placed words always wins; the objective score breaks ties.
+ */
+export function compareLayouts(
+  a: { placed: number; score: number },
+  b: { placed: number; score: number },
+): number {
+  if (a.placed !== b.placed) return a.placed - b.placed;
+  return a.score - b.score;
+}
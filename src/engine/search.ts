@@ -0,0 +1,240 @@
+import type { Direction, Grid, LayoutObjectives, PlacedWord } from "./types";
+import { shuffle, type Random } from "./random";
+import {
+  placeWord,
+  removeCells,
+  findCandidates,
+  fitsLimits,
+  type Candidate,
+  type Layout,
+  type NormalisedEntry,
+} from "./grid";
+import {
+  measureLayout,
+  scoreCandidate,
+  compareLayouts,
+  type LayoutStats,
+} from "./scoring";
+import type { SizeLimits } from "./diagnostics";
+import { allowsDirection } from "./pins";
+import { maskStarts } from "./mask";
+
+/** How often (in visited nodes) the search checks the clock */
+const CLOCK_CHECK_INTERVAL = 256;
+
+export interface BacktrackOptions {
+  /** Words pinned in place before the search starts; never moved */
+  pinned: PlacedWord[];
+  /** `Date.now()` value after which the search stops */
+  deadline: number;
+  random: Random;
+  objectives: LayoutObjectives;
+  /**
+   * Score of a whole layout, to rank layouts with the same number of words;
+   * the generator's, so shape coverage counts the same as in greedy attempts
+   */
+  layoutScore: (stats: LayoutStats, grid: Grid) => number;
+  sizeLimits: SizeLimits;
+  /** Called every few hundred nodes with the best placed count so far */
+  onTick?: (bestPlaced: number) => void;
+}
+
+export interface BacktrackOutcome {
+  /** Best layout found, or the incumbent if nothing better turned up */
+  layout: Layout | null;
+  /** True if the whole search space was explored before the deadline */
+  exhausted: boolean;
+}
+
+/**
+ * Depth-first search with backtracking that maximises the number of placed words.
+ *
+ * The layout is anchored on its first word (in `entries` order), placed at the
+ * origin across — and also down when the size limits are not square, since
+ * otherwise down is just the transposed layout. Longer words before the anchor
+ * are left out of that branch, so every layout is reachable from exactly one
+ * anchor. At each node the word
+ * with the fewest candidates is branched on: every candidate placement is
+ * tried, then the word is deferred until some other word is placed. Words
+ * with no candidates are deferred straight away. Branches that cannot beat
+ * the best layout so far are pruned.
+ *
+ * Inside a shape mask, translating a layout changes whether it fits, so the
+ * anchor is tried at every position inside the shape, in both directions,
+ * most central first.
+ *
+ * With `pinned` words, the search starts from them instead of an anchor, and
+ * words with a pinned direction only get candidates in that direction.
+ *
+ * `incumbent` (e.g. the best greedy attempt) seeds the bound, so the search
+ * only reports layouts better than it. Layouts with the same number of words
+ * are ranked by the objectives, but only a higher word count tightens the bound.
+ */
+export function searchBacktracking(
+  entries: NormalisedEntry[],
+  incumbent: Layout | null,
+  options: BacktrackOptions,
+): BacktrackOutcome {
+  const { pinned, deadline, random, objectives, sizeLimits, onTick } = options;
+  const total = entries.length + pinned.length;
+
+  const layoutScore = (words: PlacedWord[], cells: Grid) =>
+    options.layoutScore(measureLayout(words, cells), cells);
+
+  let best = incumbent;
+  let bestCount = incumbent?.placed.length ?? 0;
+  let bestScore = incumbent
+    ? layoutScore(incumbent.placed, incumbent.grid)
+    : -Infinity;
+  let nodes = 0;
+  let timedOut = false;
+
+  const grid: Grid = new Map();
+  const placed: PlacedWord[] = [];
+
+  const outOfTime = (): boolean => {
+    if (!timedOut && ++nodes % CLOCK_CHECK_INTERVAL === 0) {
+      onTick?.(bestCount);
+      if (Date.now() > deadline) timedOut = true;
+    }
+    return timedOut;
+  };
+
+  const record = () => {
+    if (placed.length < bestCount) return;
+    const score = layoutScore(placed, grid);
+    if (
+      compareLayouts(
+        { placed: placed.length, score },
+        { placed: bestCount, score: bestScore },
+      ) <= 0
+    ) {
+      return;
+    }
+    const placedSet = new Set(placed.map((w) => w.word));
+    best = {
+      placed: placed.map((w) => ({ ...w })),
+      grid: new Map(Array.from(grid, ([k, cell]) => [k, { ...cell }])),
+      unplaced: entries
+        .filter((e) => !placedSet.has(e.upper))
+        .map((e) => e.original),
+    };
+    bestCount = placed.length;
+    bestScore = score;
+  };
+
+  const place = (
+    entry: NormalisedEntry,
+    at: Pick<Candidate, "x" | "y" | "direction">,
+  ): string[] => {
+    const { x, y, direction } = at;
+    placed.push({
+      word: entry.upper,
+      label: entry.original,
+      clue: entry.clue,
+      breaks: entry.breaks,
+      x,
+      y,
+      direction,
+      number: 0,
+    });
+    return placeWord(grid, entry.upper, x, y, direction);
+  };
+
+  const unplace = (created: string[]) => {
+    placed.pop();
+    removeCells(grid, created);
+  };
+
+  const dfs = (
+    remaining: NormalisedEntry[],
+    deferred: NormalisedEntry[],
+  ): void => {
+    if (outOfTime() || bestCount === total) return;
+    record();
+    if (placed.length + remaining.length + deferred.length <= bestCount) {
+      return;
+    }
+
+    // Most constrained word first; words with no candidates wait for the grid to grow
+    const stats = measureLayout(placed, grid);
+    const limits = { ...sizeLimits, extent: stats };
+    const waiting = [...deferred];
+    let chosen: NormalisedEntry | null = null;
+    let chosenCandidates: Candidate[] = [];
+    const open: NormalisedEntry[] = [];
+    for (const entry of remaining) {
+      const candidates = findCandidates(grid, entry.upper, limits).filter((c) =>
+        allowsDirection(entry, c.direction),
+      );
+      if (candidates.length === 0) {
+        waiting.push(entry);
+        continue;
+      }
+      open.push(entry);
+      if (!chosen || candidates.length < chosenCandidates.length) {
+        chosen = entry;
+        chosenCandidates = candidates;
+      }
+    }
+    if (!chosen) return;
+
+    const others = open.filter((e) => e !== chosen);
+    const length = chosen.upper.length;
+    const score = (c: Candidate) =>
+      scoreCandidate(c, length, stats, objectives);
+    const ordered = shuffle(chosenCandidates, random).sort(
+      (a, b) => score(b) - score(a),
+    );
+
+    for (const candidate of ordered) {
+      const created = place(chosen, candidate);
+      // Placing a word may open up new spots for deferred words
+      dfs([...others, ...waiting], []);
+      unplace(created);
+      if (timedOut || bestCount === total) return;
+    }
+
+    dfs(others, [...waiting, chosen]);
+  };
+
+  if (pinned.length > 0) {
+    // Pinned words are the anchor: every layout grows from them
+    for (const w of pinned) {
+      placed.push({ ...w });
+      placeWord(grid, w.word, w.x, w.y, w.direction);
+    }
+    dfs(entries, []);
+    return { layout: best, exhausted: !timedOut };
+  }
+
+  const anchorDirections: Direction[] =
+    sizeLimits.maxWidth === sizeLimits.maxHeight && !sizeLimits.mask
+      ? ["across"]
+      : ["across", "down"];
+  const emptyExtent = measureLayout([], grid);
+
+  for (let i = 0; i < total && !timedOut && bestCount < total; i++) {
+    // Anchoring on a later word can place at most the words after it
+    if (total - i <= bestCount) break;
+    const anchor = entries[i];
+    // An anchor with a pinned direction keeps it
+    const directions = anchor.pin ? [anchor.pin.direction] : anchorDirections;
+    for (const direction of directions) {
+      const limits = { ...sizeLimits, extent: emptyExtent };
+      const starts = sizeLimits.mask
+        ? maskStarts(sizeLimits.mask, anchor.upper.length, direction)
+        : [{ x: 0, y: 0 }];
+      for (const { x, y } of starts) {
+        if (!fitsLimits(anchor.upper.length, x, y, direction, limits)) continue;
+        const created = place(anchor, { x, y, direction });
+        dfs(entries.slice(i + 1), []);
+        unplace(created);
+        if (timedOut || bestCount === total) break;
+      }
+      if (timedOut || bestCount === total) break;
+    }
+  }
+
+  return { layout: best, exhausted: !timedOut };
+}
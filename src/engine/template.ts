@@ -0,0 +1,163 @@
+import type { GridTemplate, Slot } from "./types";
+import { key } from "./grid";
+import { shuffle, type Random } from "./random";
+
+/** Black square in template text */
+export const BLOCK_CHAR = "#";
+/** White cell in template text */
+export const WHITE_CHAR = ".";
+
+/** Shortest slot in generated templates */
+const MIN_SLOT_LENGTH = 3;
+/** Share of black squares generated templates aim for */
+const TARGET_BLOCK_DENSITY = 0.18;
+
+/**
+ * Parse template text: one line per row, `#` for a black square and any other
+ * character for a white cell. Short rows are padded with white cells.
+ * Throws if the text has no rows.
+ */
+export function parseTemplate(text: string): GridTemplate {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.length > 0);
+  if (rows.length === 0) {
+    throw new Error("Шаблон сетки пуст.");
+  }
+  const width = Math.max(...rows.map((row) => row.length));
+  const blocks: string[] = [];
+  rows.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      if (row[x] === BLOCK_CHAR) blocks.push(key(x, y));
+    }
+  });
+  return { width, height: rows.length, blocks };
+}
+
+/** Template as text, in the format `parseTemplate` reads */
+export function templateToText(template: GridTemplate): string {
+  const blocks = new Set(template.blocks);
+  const rows: string[] = [];
+  for (let y = 0; y < template.height; y++) {
+    let row = "";
+    for (let x = 0; x < template.width; x++) {
+      row += blocks.has(key(x, y)) ? BLOCK_CHAR : WHITE_CHAR;
+    }
+    rows.push(row);
+  }
+  return rows.join("\n");
+}
+
+/**
+ * Find the slots of a template: every maximal run of two or more white cells,
+ * across and down. Single white cells between black squares belong to no
+ * slot in that direction.
+ */
+export function findSlots(template: GridTemplate): Slot[] {
+  const { width, height } = template;
+  const blocks = new Set(template.blocks);
+  const white = (x: number, y: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && !blocks.has(key(x, y));
+  const slots: Slot[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!white(x, y)) continue;
+      if (!white(x - 1, y)) {
+        let length = 0;
+        while (white(x + length, y)) length++;
+        if (length >= 2) slots.push({ x, y, direction: "across", length });
+      }
+      if (!white(x, y - 1)) {
+        let length = 0;
+        while (white(x, y + length)) length++;
+        if (length >= 2) slots.push({ x, y, direction: "down", length });
+      }
+    }
+  }
+  return slots;
+}
+
+/**
+ * Check the rules generated templates follow: every run of white cells, across
+ * and down, is at least `MIN_SLOT_LENGTH` long, and the white cells are
+ * connected.
+ */
+function isValidTemplate(width: number, height: number, blocks: Set<string>) {
+  const white = (x: number, y: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && !blocks.has(key(x, y));
+
+  let first: { x: number; y: number } | null = null;
+  let whiteCount = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!white(x, y)) continue;
+      whiteCount++;
+      first ??= { x, y };
+      if (!white(x - 1, y)) {
+        let length = 0;
+        while (white(x + length, y)) length++;
+        if (length < MIN_SLOT_LENGTH) return false;
+      }
+      if (!white(x, y - 1)) {
+        let length = 0;
+        while (white(x, y + length)) length++;
+        if (length < MIN_SLOT_LENGTH) return false;
+      }
+    }
+  }
+  if (!first) return false;
+
+  // Flood fill from the first white cell must reach every white cell
+  const seen = new Set([key(first.x, first.y)]);
+  const stack = [first];
+  while (stack.length > 0) {
+    const { x, y } = stack.pop()!;
+    for (const [nx, ny] of [
+      [x + 1, y],
+      [x - 1, y],
+      [x, y + 1],
+      [x, y - 1],
+    ]) {
+      if (white(nx, ny) && !seen.has(key(nx, ny))) {
+        seen.add(key(nx, ny));
+        stack.push({ x: nx, y: ny });
+      }
+    }
+  }
+  return seen.size === whiteCount;
+}
+
+/**
+ * Generate a random template: black squares are added one at a time (with
+ * their mirror image under a half turn, if `symmetric`) as long as the
+ * template stays valid, until about `TARGET_BLOCK_DENSITY` of the cells are
+ * black. Grids too small for black squares come out all white.
+ */
+export function generateTemplate(
+  width: number,
+  height: number,
+  symmetric: boolean,
+  random: Random,
+): GridTemplate {
+  const blocks = new Set<string>();
+  const target = Math.floor(width * height * TARGET_BLOCK_DENSITY);
+  const cells: { x: number; y: number }[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) cells.push({ x, y });
+  }
+
+  for (const { x, y } of shuffle(cells, random)) {
+    if (blocks.size >= target) break;
+    const added = [key(x, y)];
+    if (symmetric) added.push(key(width - 1 - x, height - 1 - y));
+    if (added.some((k) => blocks.has(k))) continue;
+    for (const k of added) blocks.add(k);
+    if (!isValidTemplate(width, height, blocks)) {
+      for (const k of added) blocks.delete(k);
+    }
+  }
+
+  return { width, height, blocks: Array.from(blocks) };
+}
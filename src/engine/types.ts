@@ -5,6 +5,21 @@ export type Direction = "across" | "down";
 export interface WordEntry {
   word: string;
   clue: string;
+  /** Fix the word's direction, and optionally its position, before generation */
+  pin?: WordPin;
+}
+
+/**
+ * Pin for a word. Positions are in grid coordinates around the origin (0, 0),
+ * which is the centre of the layout the generator builds.
+ */
+export interface WordPin {
+  direction: Direction;
+  /**
+   * Start cell of the word, or "centre" to put its middle letter on the origin.
+   * Omitted — only the direction is fixed.
+   */
+  position?: { x: number; y: number } | "centre";
 }
 
 /** A single placed word on the crossword grid */
@@ -19,6 +34,15 @@ export interface PlacedWord {
   direction: Direction;
   /** 1-based number for the crossword clue */
   number: number;
+  /** Breaks between the parts of a multi-word answer such as "ЧЁРНОЕ МОРЕ" */
+  breaks?: WordBreak[];
+}
+
+/** Space or hyphen between two parts of an answer; only the letters are placed */
+export interface WordBreak {
+  /** Number of letters before the break */
+  at: number;
+  kind: "space" | "hyphen";
 }
 
 /** A single cell in the crossword grid */
@@ -50,4 +74,379 @@ export interface CrosswordResult {
   };
   /** Words that could not be placed */
   unplacedWords: string[];
+  /** Why each of the unplaced words was left out */
+  unplacedDetails: UnplacedWord[];
+  /** Summary figures for comparing layouts */
+  metrics: LayoutMetrics;
+  /** Seed the layout was generated with — the same seed and words reproduce it */
+  seed: number;
+  /** How the layout was found */
+  search: SearchSummary;
+  /** Highlighted keyword column — only in keyword crosswords */
+  keyword?: KeywordInfo;
+  /** Template with black squares — only in dense (filled) crosswords */
+  template?: GridTemplate;
+  /** Cells holding clue text — only in scanwords */
+  clueCells?: ClueCell[];
+  /** Shape the words were fitted into; `bounds` is then the mask's rectangle */
+  mask?: ShapeMask;
+  /** Letters given away in the blank puzzle, on screen and in print */
+  revealed?: RevealedLetters;
+}
+
+/**
+ * Which letters of the blank puzzle are given away:
+ * - `percent` — a share of all letter cells, picked at random from the layout's seed
+ * - `first-letters` — the first letter of every word
+ * - `crossings` — every cell where two words cross
+ * - `manual` — only cells picked by hand
+ */
+export type RevealPreset = "percent" | "first-letters" | "crossings" | "manual";
+
+/** Letters shown in the blank puzzle */
+export interface RevealedLetters {
+  /** Preset the selection started from; cells may have been toggled by hand since */
+  preset: RevealPreset;
+  /** Share of letter cells for `percent`, 0–100 */
+  percent: number;
+  /** Grid keys of the revealed cells */
+  cells: string[];
+}
+
+/** Built-in mask shapes, or one painted by hand */
+export type MaskShape = "heart" | "star" | "tree" | "custom";
+
+/**
+ * Picture outline a crossword is fitted into: letters may only go in the
+ * mask's cells. The mask is centred on the grid origin (see `maskOffset`).
+ */
+export interface ShapeMask {
+  shape: MaskShape;
+  width: number;
+  height: number;
+  /** Keys (`"x,y"`, from the mask's top-left corner) of the cells inside the shape */
+  cells: string[];
+}
+
+/**
+ * Non-letter cell of a scanword with the clues of the words that start next
+ * to it: an across word starts right of it, a down word right below it.
+ */
+export interface ClueCell {
+  x: number;
+  y: number;
+  /** One clue, or two for words in different directions */
+  clues: CellClue[];
+}
+
+export interface CellClue {
+  direction: Direction;
+  text: string;
+  /** Number of the word the clue is for */
+  number: number;
+}
+
+/**
+ * Rectangular template of a dense crossword. Cells inside the rectangle are
+ * either black squares or white cells that must all hold letters.
+ */
+export interface GridTemplate {
+  width: number;
+  height: number;
+  /** Grid keys (`"x,y"`) of the black squares */
+  blocks: string[];
+}
+
+/** A run of two or more white cells in a template that takes one word */
+export interface Slot {
+  x: number;
+  y: number;
+  direction: Direction;
+  length: number;
+}
+
+/** Kind of puzzle to generate */
+export type PuzzleKind =
+  "free" | "keyword" | "chain" | "fillword" | "dense" | "scanword";
+
+/** What to generate, on top of the layout options */
+export interface PuzzleSettings {
+  kind: PuzzleKind;
+  /** Keyword for `keyword` puzzles */
+  keyword: string;
+  /** Shape of the cell strip for `chain` puzzles */
+  chainShape: ChainShape;
+  /** Most letters neighbouring words of a chain may share */
+  chainOverlap: number;
+  /** How words run in `fillword` puzzles */
+  fillMode: FillwordMode;
+  /** Allowed directions of straight `fillword` words */
+  fillDirections: FillDirection[];
+  dense: DenseSettings;
+  /** Word list imported by the user to fill `dense` grids */
+  dictionary: ImportedDictionary | null;
+  /** Letters every puzzle kind is built from */
+  alphabet: AlphabetSettings;
+}
+
+/** Alphabet profile (see `ALPHABET_PROFILES`), or "auto" to detect it from the words */
+export type AlphabetId =
+  | "auto"
+  | "russian"
+  | "english"
+  | "ukrainian"
+  | "belarusian"
+  | "german"
+  | "spanish";
+
+/** Optional letter folding: Ё→Е, ß→SS, Ä→AE…, Á→A… (see `LETTER_FOLDINGS`) */
+export type LetterFolding = "yo" | "sharp-s" | "umlauts" | "accents";
+
+/** Which letters words are normalised to */
+export interface AlphabetSettings {
+  profile: AlphabetId;
+  foldings: LetterFolding[];
+}
+
+/** Template settings of a dense crossword */
+export interface DenseSettings {
+  width: number;
+  height: number;
+  /** Black squares mirror each other under a half turn */
+  symmetric: boolean;
+  /**
+   * Template drawn by hand, one line per row: `#` — black square, `.` — white
+   * cell. Empty to generate a template.
+   */
+  template: string;
+}
+
+/** A word list loaded from a local file */
+export interface ImportedDictionary {
+  /** File name, for display */
+  name: string;
+  words: string[];
+}
+
+/**
+ * Shape a chainword strip is folded into:
+ * - `snake` — rows read left to right and right to left in turn
+ * - `spiral` — clockwise from the top-left corner towards the centre
+ */
+export type ChainShape = "snake" | "spiral";
+
+/** A word of a chainword, in chain order */
+export interface ChainWord {
+  /** Normalised word */
+  word: string;
+  /** Original word as entered */
+  label: string;
+  clue: string;
+  /** Clue number — the position of the word in the chain, from 1 */
+  number: number;
+  /** Index of the word's first letter in the chain */
+  start: number;
+  /** Letters shared with the previous word (0 for the first word) */
+  overlap: number;
+}
+
+/**
+ * How words run in a fillword (word search):
+ * - `straight` — in a straight line, in any of the allowed directions;
+ *   words may cross at shared letters
+ * - `snake` — along a path of side-by-side cells that may bend at every
+ *   letter (the Russian «филворд»); words never share cells
+ */
+export type FillwordMode = "straight" | "snake";
+
+/** Direction of a straight fillword word, as read */
+export type FillDirection =
+  | "right"
+  | "left"
+  | "down"
+  | "up"
+  | "down-right"
+  | "down-left"
+  | "up-right"
+  | "up-left";
+
+/** A word hidden in a fillword */
+export interface FillwordWord {
+  /** Normalised word */
+  word: string;
+  /** Original word as entered */
+  label: string;
+  clue: string;
+  /** Cells of the word's letters, in reading order */
+  cells: { x: number; y: number }[];
+}
+
+/** Output of the fillword generator */
+export interface FillwordResult {
+  mode: FillwordMode;
+  width: number;
+  height: number;
+  /** Letters row by row, hidden words and filler together */
+  letters: string[][];
+  words: FillwordWord[];
+  unplacedWords: string[];
+  unplacedDetails: UnplacedWord[];
+  seed: number;
+  search: SearchSummary;
+}
+
+/** Output of the chainword generator */
+export interface ChainwordResult {
+  words: ChainWord[];
+  /** All letters of the chain, overlaps counted once */
+  letters: string;
+  shape: ChainShape;
+  /** Grid cell of every chain letter, in chain order */
+  path: { x: number; y: number }[];
+  width: number;
+  height: number;
+  unplacedWords: string[];
+  unplacedDetails: UnplacedWord[];
+  seed: number;
+  search: SearchSummary;
+}
+
+/**
+ * Keyword of a keyword crossword: a vertical word, without a clue of its own,
+ * read down the column where the across answers meet it.
+ */
+export interface KeywordInfo {
+  word: string;
+  /** Grid column of the keyword */
+  x: number;
+  /** Grid row of the keyword's first letter */
+  y: number;
+  /** Keyword letters no answer could cover */
+  uncovered: { index: number; letter: string }[];
+}
+
+/** Summary figures of a layout */
+export interface LayoutMetrics {
+  width: number;
+  height: number;
+  /** Number of placed words */
+  placed: number;
+  /** Number of cells shared by two words */
+  intersections: number;
+  /** Weighted objective score (see `LayoutObjectives`) */
+  score: number;
+}
+
+/**
+ * Why a word was left out of the layout:
+ * - `too-long` — longer than both the maximum width and the maximum height
+ * - `out-of-bounds` — it could cross the grid, but only by growing it past the size limit
+ * - `no-placement` — no valid crossing anywhere on the final grid
+ * - `not-needed` — it fits, but every spot it could take went to another word
+ * - `no-shared-letters` — no other word has any of its letters
+ * - `blocked` — the grid has its letters, but every crossing touches other words
+ * - `duplicate` — dropped in normalisation: the same word is already in the list
+ * - `too-short` — dropped in normalisation: fewer than two letters
+ * - `detached` — taken off the grid by hand in the layout editor
+ */
+export type UnplacedReason =
+  | "too-long"
+  | "out-of-bounds"
+  | "no-placement"
+  | "not-needed"
+  | "no-shared-letters"
+  | "blocked"
+  | "duplicate"
+  | "too-short"
+  | "detached";
+
+/** A word that could not be placed, with the reason */
+export interface UnplacedWord {
+  word: string;
+  reason: UnplacedReason;
+  /** Letters of the word that a new word could share with it, to give it a crossing */
+  suggestLetters?: string[];
+  /** The entry this one repeats — only for `duplicate` */
+  duplicateOf?: string;
+  /** The word ready to go on the grid by hand; missing for words dropped in normalisation */
+  spare?: SpareWord;
+}
+
+/** An unplaced word as it would be placed: normalised, with its clue */
+export type SpareWord = Pick<PlacedWord, "word" | "label" | "clue" | "breaks">;
+
+/**
+ * Search strategy:
+ * - `greedy` — random restarts, each taking the best-scored placement per word
+ * - `backtrack` — greedy restarts followed by a depth-first search that revisits
+ *   placements, bounded by a time budget
+ */
+export type SearchMode = "greedy" | "backtrack";
+
+/** Outcome of the layout search */
+export interface SearchSummary {
+  /** `exact` — the layout was computed directly rather than searched for */
+  mode: SearchMode | "exact";
+  /**
+   * True if no layout can place more words: either every word was placed or
+   * the backtracking search explored the whole space within its budget.
+   * False means "best found".
+   */
+  optimal: boolean;
+}
+
+/** Tuning knobs for the crossword generator */
+export interface GenerationOptions {
+  /** Seed for the pseudo-random generator; a fresh one is picked if omitted */
+  seed?: number;
+  /** Number of random restarts to try */
+  maxAttempts?: number;
+  /** Search strategy (default `greedy`) */
+  mode?: SearchMode;
+  /** Time budget for the backtracking search, in milliseconds */
+  timeBudgetMs?: number;
+  /** Maximum grid width in cells; unlimited if omitted */
+  maxWidth?: number;
+  /** Maximum grid height in cells; unlimited if omitted */
+  maxHeight?: number;
+  /** Weights of the layout objectives (defaults in `DEFAULT_OBJECTIVES`) */
+  objectives?: LayoutObjectives;
+  /** How many structurally different layouts to return (default 1) */
+  alternatives?: number;
+  /** Shape to fit the words into; replaces `maxWidth` / `maxHeight` */
+  mask?: ShapeMask;
+  /** Letters to normalise words to (default: detected from the words) */
+  alphabet?: AlphabetSettings;
+}
+
+/**
+ * Weighted objectives used to score candidate placements and to compare
+ * whole layouts with the same number of placed words. A weight of 0 turns
+ * the objective off.
+ */
+export interface LayoutObjectives {
+  /** Prefer a small bounding box for the letters it holds */
+  compactness: number;
+  /** Prefer a bounding box shaped like `targetAspect` */
+  aspectRatio: number;
+  /** Target width / height ratio, e.g. 210 / 297 for A4 portrait */
+  targetAspect: number;
+  /** Prefer more intersections per word */
+  density: number;
+  /** Prefer an even split between across and down words */
+  balance: number;
+}
+
+/** Progress snapshot reported by the generator after each attempt or search tick */
+export interface GenerationProgress {
+  /** 1-based number of the attempt just finished */
+  attempt: number;
+  totalAttempts: number;
+  /** Most words placed by any attempt so far */
+  bestPlaced: number;
+  /** Number of words taking part in generation (after normalisation) */
+  totalWords: number;
+  /** Time spent in the backtracking search — only reported in `backtrack` mode */
+  elapsedMs?: number;
+  timeBudgetMs?: number;
 }
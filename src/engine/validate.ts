@@ -0,0 +1,92 @@
+import type { WordEntry } from "./types";
+import type { Alphabet } from "./alphabet";
+import { normaliseWord, strippedCharacters } from "./grid";
+
+/**
+ * A problem with one row of the word list, found before generation:
+ * - `duplicate` — the same word as an earlier row once normalised
+ * - `too-short` — fewer than two letters once normalised
+ * - `stripped` — some characters will not make it into the grid
+ * - `no-clue` — the row has a word but no clue
+ * - `no-shared-letters` — no letter in common with any other word, so the
+ *   word can never cross the rest
+ */
+export type EntryIssueKind =
+  "duplicate" | "too-short" | "stripped" | "no-clue" | "no-shared-letters";
+
+export interface EntryIssue {
+  kind: EntryIssueKind;
+  /** Row index of the first occurrence, for `duplicate` */
+  duplicateOf?: number;
+  /** The dropped characters, for `stripped` */
+  characters?: string[];
+}
+
+/** Which checks apply to the puzzle kind being built */
+export interface EntryChecks {
+  /**
+   * Words must share letters to cross (not so in fillwords, chains,
+   * keywords, and dense grids, where the template decides the crossings)
+   */
+  crossings: boolean;
+  /** Every word needs a clue (not so in fillwords) */
+  clues: boolean;
+}
+
+/** Issues that make generation leave the word out, not just warnings */
+export const BLOCKING_ISSUES: ReadonlySet<EntryIssueKind> = new Set([
+  "duplicate",
+  "too-short",
+  "no-shared-letters",
+]);
+
+/**
+ * Check every row of the word list the way generation will treat it. The
+ * result has one (possibly empty) list of issues per row; blank rows have
+ * none. Duplicates and too-short words don't count as partners in the
+ * shared-letters check, since generation drops them.
+ */
+export function checkEntries(
+  entries: WordEntry[],
+  alphabet: Alphabet,
+  checks: EntryChecks,
+): EntryIssue[][] {
+  const issues: EntryIssue[][] = entries.map(() => []);
+  const normalised = entries.map((e) =>
+    e.word.trim() ? normaliseWord(e.word, alphabet) : "",
+  );
+  const firstRow = new Map<string, number>();
+  const kept: number[] = [];
+
+  entries.forEach((entry, i) => {
+    if (!entry.word.trim()) return;
+    const stripped = strippedCharacters(entry.word, alphabet);
+    if (stripped.length > 0) {
+      issues[i].push({ kind: "stripped", characters: stripped });
+    }
+    if (checks.clues && !entry.clue.trim()) issues[i].push({ kind: "no-clue" });
+
+    const upper = normalised[i];
+    const first = firstRow.get(upper);
+    if (upper.length < 2) {
+      issues[i].push({ kind: "too-short" });
+    } else if (first !== undefined) {
+      issues[i].push({ kind: "duplicate", duplicateOf: first });
+    } else {
+      firstRow.set(upper, i);
+      kept.push(i);
+    }
+  });
+
+  if (checks.crossings && kept.length > 1) {
+    const letters = kept.map((i) => new Set(normalised[i]));
+    kept.forEach((i, a) => {
+      const shares = kept.some(
+        (_, b) => b !== a && [...letters[a]].some((ch) => letters[b].has(ch)),
+      );
+      if (!shares) issues[i].push({ kind: "no-shared-letters" });
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,87 @@
+import type { PlacedWord } from "./types";
+import type { Layout } from "./grid";
+import { compareLayouts } from "./scoring";
+
+/** A layout kept by the pool, with its objective score */
+export interface ScoredLayout {
+  layout: Layout;
+  score: number;
+}
+
+/** Keeps the best few structurally different layouts seen so far */
+export interface LayoutPool {
+  /** Consider a layout for the pool */
+  offer(layout: Layout, score: number): void;
+  /** Best layout so far, or null if none was offered */
+  best(): ScoredLayout | null;
+  /** All kept layouts, best first */
+  layouts(): ScoredLayout[];
+}
+
+/**
+ * Signature of one orientation of a layout: every word with its position
+ * relative to the top-left word start, in a fixed order.
+ */
+function orientedSignature(
+  words: Pick<PlacedWord, "word" | "x" | "y" | "direction">[],
+): string {
+  const minX = Math.min(...words.map((w) => w.x));
+  const minY = Math.min(...words.map((w) => w.y));
+  return words
+    .map((w) => `${w.word}@${w.x - minX},${w.y - minY}${w.direction[0]}`)
+    .sort()
+    .join("|");
+}
+
+/**
+ * Signature identifying a layout up to translation and transposition:
+ * two layouts with the same signature look the same on paper (or mirrored
+ * across the diagonal).
+ */
+export function layoutSignature(placed: PlacedWord[]): string {
+  if (placed.length === 0) return "";
+  const transposed = placed.map((w) => ({
+    word: w.word,
+    x: w.y,
+    y: w.x,
+    direction:
+      w.direction === "across" ? ("down" as const) : ("across" as const),
+  }));
+  const a = orientedSignature(placed);
+  const b = orientedSignature(transposed);
+  return a < b ? a : b;
+}
+
+/**
+ * Create a pool that keeps up to `capacity` structurally different layouts,
+ * ranked like whole attempts are (see `compareLayouts`).
+ * Offering a layout that looks the same as a kept one only replaces it if better.
+ */
+export function createLayoutPool(capacity: number): LayoutPool {
+  const kept: (ScoredLayout & { signature: string })[] = [];
+
+  const rank = (a: ScoredLayout, b: ScoredLayout) =>
+    compareLayouts(
+      { placed: b.layout.placed.length, score: b.score },
+      { placed: a.layout.placed.length, score: a.score },
+    );
+
+  const offer = (layout: Layout, score: number) => {
+    const signature = layoutSignature(layout.placed);
+    const candidate = { layout, score, signature };
+    const same = kept.findIndex((k) => k.signature === signature);
+    if (same !== -1) {
+      if (rank(candidate, kept[same]) < 0) kept[same] = candidate;
+    } else {
+      kept.push(candidate);
+    }
+    kept.sort(rank);
+    if (kept.length > capacity) kept.length = capacity;
+  };
+
+  return {
+    offer,
+    best: () => kept[0] ?? null,
+    layouts: () => [...kept],
+  };
+}
@@ -0,0 +1,65 @@
+import type {
+  ChainwordResult,
+  CrosswordResult,
+  FillwordResult,
+  GenerationOptions,
+  GenerationProgress,
+  WordEntry,
+} from "./types";
+import type { KeywordOptions } from "./keyword";
+import type { ChainwordOptions } from "./chainword";
+import type { FillwordOptions } from "./fillword";
+import type { DenseOptions } from "./dense";
+import type { ScanwordOptions } from "./scanword";
+
+/** Message sent from the page to the generator worker */
+export type WorkerRequest =
+  | {
+      type: "generate";
+      /** Job id — echoed back in every response for this job */
+      id: number;
+      entries: WordEntry[];
+      options: GenerationOptions;
+    }
+  | {
+      type: "generate-keyword";
+      id: number;
+      keyword: string;
+      entries: WordEntry[];
+      options: KeywordOptions;
+    }
+  | {
+      type: "generate-chain";
+      id: number;
+      entries: WordEntry[];
+      options: ChainwordOptions;
+    }
+  | {
+      type: "generate-fillword";
+      id: number;
+      entries: WordEntry[];
+      options: FillwordOptions;
+    }
+  | {
+      type: "generate-dense";
+      id: number;
+      entries: WordEntry[];
+      /** Imported word list for the slots the entries don't take */
+      dictionary: string[];
+      options: DenseOptions;
+    }
+  | {
+      type: "generate-scanword";
+      id: number;
+      entries: WordEntry[];
+      options: ScanwordOptions;
+    };
+
+/** Message sent from the generator worker back to the page */
+export type WorkerResponse =
+  | { type: "progress"; id: number; progress: GenerationProgress }
+  /** Layouts found, best first */
+  | { type: "result"; id: number; results: CrosswordResult[] }
+  | { type: "chain-result"; id: number; chain: ChainwordResult }
+  | { type: "fillword-result"; id: number; fillword: FillwordResult }
+  | { type: "error"; id: number; message: string };
@@ -0,0 +1,17 @@
+/**
+ * Светлые цвета для подсветки найденных слов в ответах (без «#»,
+ * как принято в docx). Слова раскрашиваются по кругу.
+ */
+export const ANSWER_COLORS = [
+  "FDE68A",
+  "BBF7D0",
+  "BFDBFE",
+  "FBCFE8",
+  "DDD6FE",
+  "FED7AA",
+  "A5F3FC",
+  "D9F99D",
+];
+
+export const answerColor = (index: number): string =>
+  ANSWER_COLORS[index % ANSWER_COLORS.length];
@@ -0,0 +1,104 @@
+import JSZip from "jszip";
+import type { PuzzleSnapshot } from "./library";
+import { ProjectFileError, readProject, writeProject } from "./project";
+
+/**
+ * Головоломка прячется в DOCX отдельной частью customXml — Word хранит
+ * такие части нетронутыми при пересохранении, в отличие от длинных
+ * свойств документа, которые он обрезает.
+ */
+const PROJECT_NAMESPACE = "urn:crossexpo:project";
+
+const ITEM = "customXml/item1.xml";
+const ITEM_PROPS = "customXml/itemProps1.xml";
+const ITEM_RELS = "customXml/_rels/item1.xml.rels";
+
+const RELATIONSHIPS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+const OFFICE_RELATIONSHIPS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/** Вставить строку XML перед закрывающим тегом части */
+async function insertBefore(
+  zip: JSZip,
+  path: string,
+  closingTag: string,
+  xml: string,
+): Promise<void> {
+  const part = await zip.file(path)?.async("string");
+  if (!part) throw new Error(`В документе нет части ${path}`);
+  zip.file(path, part.replace(closingTag, `${xml}${closingTag}`));
+}
+
+/** Добавить в собранный DOCX данные проекта, чтобы открыть его снова */
+export async function embedProject(
+  docx: Blob,
+  snapshot: PuzzleSnapshot,
+): Promise<Blob> {
+  const zip = await JSZip.loadAsync(await docx.arrayBuffer());
+
+  zip.file(
+    ITEM,
+    `<?xml version="1.0" encoding="UTF-8"?><project xmlns="${PROJECT_NAMESPACE}">${escapeXml(writeProject(snapshot))}</project>`,
+  );
+  zip.file(
+    ITEM_PROPS,
+    `<?xml version="1.0" encoding="UTF-8" standalone="no"?><ds:datastoreItem ds:itemID="{${crypto.randomUUID().toUpperCase()}}" xmlns:ds="http://schemas.openxmlformats.org/officeDocument/2006/customXml"><ds:schemaRefs><ds:schemaRef ds:uri="${PROJECT_NAMESPACE}"/></ds:schemaRefs></ds:datastoreItem>`,
+  );
+  zip.file(
+    ITEM_RELS,
+    `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="${RELATIONSHIPS}"><Relationship Id="rId1" Type="${OFFICE_RELATIONSHIPS}/customXmlProps" Target="itemProps1.xml"/></Relationships>`,
+  );
+  await insertBefore(
+    zip,
+    "word/_rels/document.xml.rels",
+    "</Relationships>",
+    `<Relationship Id="rIdCrossExpo" Type="${OFFICE_RELATIONSHIPS}/customXml" Target="../${ITEM}"/>`,
+  );
+  await insertBefore(
+    zip,
+    "[Content_Types].xml",
+    "</Types>",
+    `<Override ContentType="application/vnd.openxmlformats-officedocument.customXmlProperties+xml" PartName="/${ITEM_PROPS}"/>`,
+  );
+
+  return zip.generateAsync({
+    type: "blob",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  });
+}
+
+/**
+ * Достать головоломку из DOCX, сохранённого CrossExpo. Word может
+ * перенумеровать части, поэтому просматриваются все части customXml.
+ * Бросает ProjectFileError, если данных нет или они испорчены.
+ */
+export async function readDocxProject(docx: Blob): Promise<PuzzleSnapshot> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await docx.arrayBuffer());
+  } catch {
+    throw new ProjectFileError("Это не документ DOCX.");
+  }
+
+  const items = zip.file(/^customXml\/item\d+\.xml$/);
+  for (const item of items) {
+    const xml = new DOMParser().parseFromString(
+      await item.async("string"),
+      "application/xml",
+    );
+    const root = xml.documentElement;
+    if (root.namespaceURI === PROJECT_NAMESPACE) {
+      return readProject(root.textContent ?? "");
+    }
+  }
+
+  throw new ProjectFileError(
+    "В документе нет данных головоломки: открыть можно только DOCX, " +
+      "экспортированный из CrossExpo.",
+  );
+}
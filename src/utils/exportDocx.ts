@@ -14,17 +14,62 @@ import {
   TableLayoutType,
   VerticalAlign,
   HeadingLevel,
+  ShadingType,
 } from "docx";
 import { saveAs } from "file-saver";
-import type { CrosswordResult, Cell } from "../engine/types";
+import type {
+  ChainwordResult,
+  CrosswordResult,
+  FillwordResult,
+  Cell,
+  WordBreak,
+} from "../engine/types";
 import { gridTo2D } from "../engine/generator";
+import { formatEnumeration } from "../engine/grid";
+import { chainTo2D } from "../engine/chainword";
+import { revealedCells } from "../engine/reveal";
+import { answerColor } from "./answerColors";
+import { embedProject } from "./docxProject";
+import type { PuzzleSnapshot } from "./library";
 
 const CELL_SIZE_TWIPS = 400; // ~0.28 inches per cell
+/** Клетки сканворда крупнее: в них помещается текст вопроса */
+const SCANWORD_CELL_TWIPS = 720;
 const BORDER_STYLE = {
   style: BorderStyle.SINGLE,
   size: 4,
   color: "000000",
 };
+/** Граница между частями ответа из нескольких слов */
+const BREAK_BORDER = {
+  style: BorderStyle.SINGLE,
+  size: 18,
+  color: "000000",
+};
+/** Заливка клеток ключевого слова */
+const KEYWORD_SHADING = {
+  type: ShadingType.CLEAR,
+  color: "auto",
+  fill: "FDE68A",
+};
+/** Заливка чёрных клеток плотной сетки */
+const BLOCK_SHADING = {
+  type: ShadingType.CLEAR,
+  color: "auto",
+  fill: "000000",
+};
+/** Заливка пустых клеток фигуры: контур виден под сеткой */
+const MASK_SHADING = {
+  type: ShadingType.CLEAR,
+  color: "auto",
+  fill: "EDE9FE",
+};
+/** Заливка клеток с вопросами сканворда */
+const CLUE_SHADING = {
+  type: ShadingType.CLEAR,
+  color: "auto",
+  fill: "E5E7EB",
+};
 const NO_BORDER = {
   style: BorderStyle.NONE,
   size: 0,
@@ -43,15 +88,88 @@ function pluralLetters(n: number): string {
 function buildCrosswordTable(result: CrosswordResult, filled: boolean): Table {
   const grid2D = gridTo2D(result);
   const { width } = result.bounds;
+  const cellSize = result.clueCells ? SCANWORD_CELL_TWIPS : CELL_SIZE_TWIPS;
+  const clueCells = new Map(
+    (result.clueCells ?? []).map((c) => [`${c.x},${c.y}`, c]),
+  );
+  const maskCells = new Set(result.mask?.cells ?? []);
+  const revealed = revealedCells(result);
+  // Последние буквы частей ответов из нескольких слов
+  const breakRight = new Set<string>();
+  const breakBelow = new Set<string>();
+  for (const w of result.words) {
+    for (const { at } of w.breaks ?? []) {
+      if (w.direction === "across") breakRight.add(`${w.x + at - 1},${w.y}`);
+      else breakBelow.add(`${w.x},${w.y + at - 1}`);
+    }
+  }
 
-  const tableWidth = width * CELL_SIZE_TWIPS;
+  const tableWidth = width * cellSize;
+  const { keyword, bounds } = result;
+
+  const rows = grid2D.map((rowCells, rowIndex) => {
+    const cells = rowCells.map((cell: Cell | null, colIndex) => {
+      if (!cell && result.template) {
+        // Чёрная клетка шаблона плотной сетки — залита чёрным
+        return new TableCell({
+          width: { size: cellSize, type: WidthType.DXA },
+          shading: BLOCK_SHADING,
+          borders: {
+            top: BORDER_STYLE,
+            bottom: BORDER_STYLE,
+            left: BORDER_STYLE,
+            right: BORDER_STYLE,
+          },
+          children: [new Paragraph({ children: [] })],
+        });
+      }
+
+      const clueCell = cell
+        ? undefined
+        : clueCells.get(`${bounds.minX + colIndex},${bounds.minY + rowIndex}`);
+      if (clueCell) {
+        // Клетка сканворда с вопросами: текст мелким шрифтом и стрелка
+        return new TableCell({
+          width: { size: cellSize, type: WidthType.DXA },
+          shading: CLUE_SHADING,
+          borders: {
+            top: BORDER_STYLE,
+            bottom: BORDER_STYLE,
+            left: BORDER_STYLE,
+            right: BORDER_STYLE,
+          },
+          margins: { top: 0, bottom: 0, left: 20, right: 20 },
+          verticalAlign: VerticalAlign.CENTER,
+          children: clueCell.clues.map(
+            (c) =>
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                spacing: { before: 0, after: 0, line: 180 },
+                children: [
+                  new TextRun({
+                    text: `${c.text || c.number} `,
+                    size: 10, // 5pt
+                    font: "Arial",
+                  }),
+                  new TextRun({
+                    text: c.direction === "across" ? "\u2192" : "\u2193",
+                    size: 12,
+                    bold: true,
+                    font: "Arial",
+                  }),
+                ],
+              }),
+          ),
+        });
+      }
 
-  const rows = grid2D.map((rowCells) => {
-    const cells = rowCells.map((cell: Cell | null) => {
       if (!cell) {
         // Пустая/чёрная клетка — без рамок, без содержимого
         return new TableCell({
-          width: { size: CELL_SIZE_TWIPS, type: WidthType.DXA },
+          width: { size: cellSize, type: WidthType.DXA },
+          shading: maskCells.has(`${colIndex},${rowIndex}`)
+            ? MASK_SHADING
+            : undefined,
           borders: {
             top: NO_BORDER,
             bottom: NO_BORDER,
@@ -72,7 +190,7 @@ function buildCrosswordTable(result: CrosswordResult, filled: boolean): Table {
       const children: TextRun[] = [];
 
       // Номер подсказки в верхнем левом углу клетки
-      if (cell.number) {
+      if (cell.number && !result.clueCells) {
         children.push(
           new TextRun({
             text: String(cell.number),
@@ -84,7 +202,11 @@ function buildCrosswordTable(result: CrosswordResult, filled: boolean): Table {
         );
       }
 
-      if (filled) {
+      const x = bounds.minX + colIndex;
+      const y = bounds.minY + rowIndex;
+
+      // В пустом кроссворде печатаются только открытые буквы-подсказки
+      if (filled || revealed.has(`${x},${y}`)) {
         children.push(
           new TextRun({
             text: cell.letter,
@@ -95,13 +217,23 @@ function buildCrosswordTable(result: CrosswordResult, filled: boolean): Table {
         );
       }
 
+      // Столбец ключевого слова выделяется заливкой
+      const keywordRow = keyword ? y - keyword.y : -1;
+      const isKeyword =
+        keyword !== undefined &&
+        x === keyword.x &&
+        keywordRow >= 0 &&
+        keywordRow < keyword.word.length;
+
       return new TableCell({
-        width: { size: CELL_SIZE_TWIPS, type: WidthType.DXA },
+        width: { size: cellSize, type: WidthType.DXA },
+        shading: isKeyword ? KEYWORD_SHADING : undefined,
+        // Толстая граница ставится с обеих сторон: Word берёт любую из двух
         borders: {
-          top: BORDER_STYLE,
-          bottom: BORDER_STYLE,
-          left: BORDER_STYLE,
-          right: BORDER_STYLE,
+          top: breakBelow.has(`${x},${y - 1}`) ? BREAK_BORDER : BORDER_STYLE,
+          bottom: breakBelow.has(`${x},${y}`) ? BREAK_BORDER : BORDER_STYLE,
+          left: breakRight.has(`${x - 1},${y}`) ? BREAK_BORDER : BORDER_STYLE,
+          right: breakRight.has(`${x},${y}`) ? BREAK_BORDER : BORDER_STYLE,
         },
         verticalAlign: VerticalAlign.CENTER,
         children: [
@@ -116,7 +248,7 @@ function buildCrosswordTable(result: CrosswordResult, filled: boolean): Table {
 
     return new TableRow({
       height: {
-        value: CELL_SIZE_TWIPS,
+        value: cellSize,
         rule: "exact" as unknown as typeof import("docx").HeightRule.EXACT,
       },
       children: cells,
@@ -130,197 +262,161 @@ function buildCrosswordTable(result: CrosswordResult, filled: boolean): Table {
   });
 }
 
-function buildCluesList(result: CrosswordResult, filled: boolean): Paragraph[] {
-  const acrossWords = result.words
-    .filter((w) => w.direction === "across")
-    .sort((a, b) => a.number - b.number);
-
-  const downWords = result.words
-    .filter((w) => w.direction === "down")
-    .sort((a, b) => a.number - b.number);
-
-  const paragraphs: Paragraph[] = [];
-
-  // ---- Заголовок «По горизонтали» ----
-  paragraphs.push(
-    new Paragraph({
-      spacing: { before: 200, after: 100 },
-      children: [
-        new TextRun({
-          text: "По горизонтали (\u2192)",
-          bold: true,
-          size: 22,
-          font: "Arial",
-        }),
-      ],
-    }),
-  );
-
-  for (const w of acrossWords) {
-    const runs: TextRun[] = [
+/** Заголовок раздела подсказок */
+function buildCluesHeading(text: string): Paragraph {
+  return new Paragraph({
+    spacing: { before: 200, after: 100 },
+    children: [
       new TextRun({
-        text: `${w.number}. `,
+        text,
         bold: true,
-        size: 20,
+        size: 22,
         font: "Arial",
       }),
-    ];
+    ],
+  });
+}
 
-    // Текст подсказки, если есть; иначе — прочерки
-    if (w.clue) {
-      runs.push(
-        new TextRun({
-          text: w.clue,
-          size: 20,
-          font: "Arial",
-        }),
-      );
-    } else {
-      runs.push(
-        new TextRun({
-          text: "_".repeat(w.word.length),
-          size: 20,
-          font: "Arial",
-        }),
-      );
-    }
+/** Строка подсказки: номер, текст, число букв и, в режиме ответов, ответ */
+function buildClue(
+  w: { number: number; clue: string; word: string; breaks?: WordBreak[] },
+  filled: boolean,
+): Paragraph {
+  const runs: TextRun[] = [
+    new TextRun({
+      text: `${w.number}. `,
+      bold: true,
+      size: 20,
+      font: "Arial",
+    }),
+  ];
 
-    // Количество букв
+  // Текст подсказки, если есть; иначе — прочерки
+  if (w.clue) {
     runs.push(
       new TextRun({
-        text: ` (${pluralLetters(w.word.length)})`,
-        size: 18,
+        text: w.clue,
+        size: 20,
         font: "Arial",
-        color: "888888",
       }),
     );
-
-    // В режиме ответов — показать слово-ответ
-    if (filled) {
-      runs.push(
-        new TextRun({
-          text: `  [${w.word}]`,
-          size: 18,
-          font: "Arial",
-          bold: true,
-          color: "4f46e5",
-        }),
-      );
-    }
-
-    paragraphs.push(
-      new Paragraph({
-        spacing: { before: 20, after: 20 },
-        children: runs,
+  } else {
+    runs.push(
+      new TextRun({
+        text: "_".repeat(w.word.length),
+        size: 20,
+        font: "Arial",
       }),
     );
   }
 
-  // ---- Заголовок «По вертикали» ----
-  paragraphs.push(
-    new Paragraph({
-      spacing: { before: 200, after: 100 },
-      children: [
-        new TextRun({
-          text: "По вертикали (\u2193)",
-          bold: true,
-          size: 22,
-          font: "Arial",
-        }),
-      ],
+  // Количество букв или, для ответа из нескольких слов, длины частей
+  runs.push(
+    new TextRun({
+      text: w.breaks
+        ? ` (${formatEnumeration(w.word.length, w.breaks)})`
+        : ` (${pluralLetters(w.word.length)})`,
+      size: 18,
+      font: "Arial",
+      color: "888888",
     }),
   );
 
-  for (const w of downWords) {
-    const runs: TextRun[] = [
-      new TextRun({
-        text: `${w.number}. `,
-        bold: true,
-        size: 20,
-        font: "Arial",
-      }),
-    ];
-
-    // Текст подсказки, если есть; иначе — прочерки
-    if (w.clue) {
-      runs.push(
-        new TextRun({
-          text: w.clue,
-          size: 20,
-          font: "Arial",
-        }),
-      );
-    } else {
-      runs.push(
-        new TextRun({
-          text: "_".repeat(w.word.length),
-          size: 20,
-          font: "Arial",
-        }),
-      );
-    }
-
-    // Количество букв
+  // В режиме ответов — показать слово-ответ
+  if (filled) {
     runs.push(
       new TextRun({
-        text: ` (${pluralLetters(w.word.length)})`,
+        text: `  [${w.word}]`,
         size: 18,
         font: "Arial",
-        color: "888888",
+        bold: true,
+        color: "4f46e5",
       }),
     );
+  }
 
-    // В режиме ответов — показать слово-ответ
-    if (filled) {
-      runs.push(
-        new TextRun({
-          text: `  [${w.word}]`,
-          size: 18,
-          font: "Arial",
-          bold: true,
-          color: "4f46e5",
-        }),
-      );
-    }
+  return new Paragraph({
+    spacing: { before: 20, after: 20 },
+    children: runs,
+  });
+}
 
-    paragraphs.push(
-      new Paragraph({
-        spacing: { before: 20, after: 20 },
-        children: runs,
-      }),
-    );
+function buildCluesList(result: CrosswordResult, filled: boolean): Paragraph[] {
+  const acrossWords = result.words
+    .filter((w) => w.direction === "across")
+    .sort((a, b) => a.number - b.number);
+
+  const downWords = result.words
+    .filter((w) => w.direction === "down")
+    .sort((a, b) => a.number - b.number);
+
+  const paragraphs: Paragraph[] = [];
+
+  if (acrossWords.length > 0) {
+    paragraphs.push(buildCluesHeading("По горизонтали (\u2192)"));
+    for (const w of acrossWords) paragraphs.push(buildClue(w, filled));
+  }
+
+  if (downWords.length > 0) {
+    paragraphs.push(buildCluesHeading("По вертикали (\u2193)"));
+    for (const w of downWords) paragraphs.push(buildClue(w, filled));
   }
 
   return paragraphs;
 }
 
-export async function exportCrosswordDocx(
+function buildKeywordNote(
   result: CrosswordResult,
   filled: boolean,
-  filename: string = "кроссворд.docx",
-): Promise<void> {
-  const { width, height } = result.bounds;
-
-  // Выбираем ориентацию в зависимости от пропорций сетки
-  const isLandscape = width > height * 1.3;
-
-  const table = buildCrosswordTable(result, filled);
-  const clues = buildCluesList(result, filled);
+): Paragraph[] {
+  const { keyword } = result;
+  if (!keyword) return [];
+  return [
+    new Paragraph({
+      spacing: { before: 200, after: 0 },
+      children: [
+        new TextRun({
+          text: "Ключевое слово (в выделенном столбце): ",
+          size: 20,
+          font: "Arial",
+        }),
+        new TextRun({
+          text: filled ? keyword.word : "_".repeat(keyword.word.length),
+          bold: true,
+          size: 20,
+          font: "Arial",
+        }),
+      ],
+    }),
+  ];
+}
 
-  const title = new Paragraph({
+function buildTitle(text: string): Paragraph {
+  return new Paragraph({
     heading: HeadingLevel.HEADING_1,
     alignment: AlignmentType.CENTER,
     spacing: { before: 0, after: 200 },
     children: [
       new TextRun({
-        text: filled ? "Кроссворд (ответы)" : "Кроссворд",
+        text,
         bold: true,
         size: 32,
         font: "Arial",
       }),
     ],
   });
+}
 
+/**
+ * Собрать документ A4 из одного раздела и сохранить его. С `project`
+ * в документ вкладывается головоломка, чтобы его можно было открыть снова.
+ */
+async function saveDocument(
+  children: (Paragraph | Table)[],
+  isLandscape: boolean,
+  filename: string,
+  project?: PuzzleSnapshot,
+): Promise<void> {
   const doc = new Document({
     sections: [
       {
@@ -342,11 +438,234 @@ export async function exportCrosswordDocx(
             },
           },
         },
-        children: [title, table, ...clues],
+        children,
       },
     ],
   });
 
   const blob = await Packer.toBlob(doc);
-  saveAs(blob, filename);
+  saveAs(project ? await embedProject(blob, project) : blob, filename);
+}
+
+export async function exportCrosswordDocx(
+  result: CrosswordResult,
+  filled: boolean,
+  filename: string = "кроссворд.docx",
+  /** Головоломка целиком, чтобы документ можно было открыть в приложении */
+  project?: PuzzleSnapshot,
+): Promise<void> {
+  const { width, height } = result.bounds;
+
+  // Выбираем ориентацию в зависимости от пропорций сетки
+  const isLandscape = width > height * 1.3;
+
+  const table = buildCrosswordTable(result, filled);
+  // В сканворде вопросы уже стоят в сетке
+  const clues = result.clueCells ? [] : buildCluesList(result, filled);
+  const name = result.clueCells ? "Сканворд" : "Кроссворд";
+  const title = buildTitle(filled ? `${name} (ответы)` : name);
+
+  await saveDocument(
+    [title, table, ...buildKeywordNote(result, filled), ...clues],
+    isLandscape,
+    filename,
+    project,
+  );
+}
+
+/** Граница клетки чайнворда: толстая там, где лента не продолжается */
+const chainBorder = (joined: boolean) => ({
+  style: BorderStyle.SINGLE,
+  size: joined ? 4 : 18,
+  color: "000000",
+});
+
+function buildChainwordTable(chain: ChainwordResult, filled: boolean): Table {
+  const rows = chainTo2D(chain).map(
+    (rowCells) =>
+      new TableRow({
+        height: {
+          value: CELL_SIZE_TWIPS,
+          rule: "exact" as unknown as typeof import("docx").HeightRule.EXACT,
+        },
+        children: rowCells.map((cell) => {
+          if (!cell) {
+            return new TableCell({
+              width: { size: CELL_SIZE_TWIPS, type: WidthType.DXA },
+              borders: {
+                top: NO_BORDER,
+                bottom: NO_BORDER,
+                left: NO_BORDER,
+                right: NO_BORDER,
+              },
+              children: [new Paragraph({ children: [] })],
+            });
+          }
+
+          const children: TextRun[] = [];
+          if (cell.number) {
+            children.push(
+              new TextRun({
+                text: String(cell.number),
+                size: 12, // 6pt
+                superScript: true,
+                font: "Arial",
+                color: "555555",
+              }),
+            );
+          }
+          if (filled) {
+            children.push(
+              new TextRun({
+                text: cell.letter,
+                size: 20, // 10pt
+                bold: true,
+                font: "Arial",
+              }),
+            );
+          }
+
+          return new TableCell({
+            width: { size: CELL_SIZE_TWIPS, type: WidthType.DXA },
+            borders: {
+              top: chainBorder(cell.joined.top),
+              bottom: chainBorder(cell.joined.bottom),
+              left: chainBorder(cell.joined.left),
+              right: chainBorder(cell.joined.right),
+            },
+            verticalAlign: VerticalAlign.CENTER,
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                spacing: { before: 0, after: 0, line: 240 },
+                children,
+              }),
+            ],
+          });
+        }),
+      }),
+  );
+
+  return new Table({
+    layout: TableLayoutType.FIXED,
+    width: { size: chain.width * CELL_SIZE_TWIPS, type: WidthType.DXA },
+    rows,
+  });
+}
+
+/**
+ * Экспорт чайнворда: лента клеток с толстыми границами витков
+ * и подсказки, пронумерованные по порядку слов в цепочке.
+ */
+export async function exportChainwordDocx(
+  chain: ChainwordResult,
+  filled: boolean,
+  filename: string = "чайнворд.docx",
+  /** Головоломка целиком, чтобы документ можно было открыть в приложении */
+  project?: PuzzleSnapshot,
+): Promise<void> {
+  const title = buildTitle(filled ? "Чайнворд (ответы)" : "Чайнворд");
+  const clues = [
+    buildCluesHeading("По цепочке"),
+    ...chain.words.map((w) => buildClue(w, filled)),
+  ];
+
+  await saveDocument(
+    [title, buildChainwordTable(chain, filled), ...clues],
+    chain.width > chain.height * 1.3,
+    filename,
+    project,
+  );
+}
+
+function buildFillwordTable(fillword: FillwordResult, filled: boolean): Table {
+  // Цвет клетки в ответах — цвет слова, которому она принадлежит
+  const colors = new Map<string, string>();
+  if (filled) {
+    fillword.words.forEach((w, i) =>
+      w.cells.forEach(({ x, y }) => colors.set(`${x},${y}`, answerColor(i))),
+    );
+  }
+
+  const rows = fillword.letters.map(
+    (rowLetters, y) =>
+      new TableRow({
+        height: {
+          value: CELL_SIZE_TWIPS,
+          rule: "exact" as unknown as typeof import("docx").HeightRule.EXACT,
+        },
+        children: rowLetters.map((letter, x) => {
+          const color = colors.get(`${x},${y}`);
+          return new TableCell({
+            width: { size: CELL_SIZE_TWIPS, type: WidthType.DXA },
+            shading: color
+              ? { type: ShadingType.CLEAR, color: "auto", fill: color }
+              : undefined,
+            borders: {
+              top: BORDER_STYLE,
+              bottom: BORDER_STYLE,
+              left: BORDER_STYLE,
+              right: BORDER_STYLE,
+            },
+            verticalAlign: VerticalAlign.CENTER,
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                spacing: { before: 0, after: 0, line: 240 },
+                children: [
+                  new TextRun({
+                    text: letter,
+                    size: 20, // 10pt
+                    bold: true,
+                    font: "Arial",
+                  }),
+                ],
+              }),
+            ],
+          });
+        }),
+      }),
+  );
+
+  return new Table({
+    layout: TableLayoutType.FIXED,
+    width: { size: fillword.width * CELL_SIZE_TWIPS, type: WidthType.DXA },
+    rows,
+  });
+}
+
+/**
+ * Экспорт филворда: сетка букв и список слов для поиска.
+ * В варианте с ответами клетки каждого слова залиты своим цветом.
+ */
+export async function exportFillwordDocx(
+  fillword: FillwordResult,
+  filled: boolean,
+  filename: string = "филворд.docx",
+  /** Головоломка целиком, чтобы документ можно было открыть в приложении */
+  project?: PuzzleSnapshot,
+): Promise<void> {
+  const title = buildTitle(filled ? "Филворд (ответы)" : "Филворд");
+  const words = new Paragraph({
+    spacing: { before: 20, after: 20 },
+    children: [
+      new TextRun({
+        text: fillword.words.map((w) => w.word).join(", "),
+        size: 20,
+        font: "Arial",
+      }),
+    ],
+  });
+
+  await saveDocument(
+    [
+      title,
+      buildFillwordTable(fillword, filled),
+      buildCluesHeading("Найдите слова"),
+      words,
+    ],
+    false,
+    filename,
+    project,
+  );
 }
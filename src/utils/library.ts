@@ -0,0 +1,177 @@
+import type {
+  ChainwordResult,
+  CrosswordResult,
+  FillwordResult,
+  GenerationOptions,
+  PuzzleSettings,
+  WordEntry,
+} from "../engine/types";
+
+/**
+ * Головоломка в том виде, в каком она показана: все варианты раскладки,
+ * настройки и слова, из которых она собрана.
+ */
+export interface PuzzleSnapshot {
+  /** Слова, по которым шла генерация */
+  entries: WordEntry[];
+  layouts: CrosswordResult[];
+  /** Номер выбранной раскладки в `layouts`; -1 — кроссворда нет */
+  selected: number;
+  chain: ChainwordResult | null;
+  fillword: FillwordResult | null;
+  settings: GenerationOptions;
+  puzzle: PuzzleSettings;
+}
+
+/** Головоломка, сохранённая вместе со списком слов */
+export interface SavedPuzzle extends PuzzleSnapshot {
+  id: string;
+  savedAt: number;
+}
+
+/** Именованный список слов в библиотеке */
+export interface WordList {
+  id: string;
+  name: string;
+  /** Метки для поиска: предмет и класс */
+  subject: string;
+  grade: string;
+  entries: WordEntry[];
+  /** Сохранённые головоломки, новые — в конце */
+  puzzles: SavedPuzzle[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Несохранённая работа, которую можно восстановить после перезагрузки */
+export interface Session {
+  /** Слова из панели ввода */
+  entries: WordEntry[];
+  snapshot: PuzzleSnapshot | null;
+  /** Открытый список библиотеки; null — список ещё не сохранён */
+  listId: string | null;
+  savedAt: number;
+}
+
+const DB_NAME = "crossexpo";
+const DB_VERSION = 1;
+const LISTS = "lists";
+const SESSION = "session";
+/** Ключ единственной записи в хранилище сеанса */
+const SESSION_KEY = "current";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Открыть базу (один раз за сеанс), при первом запуске — создать хранилища */
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(LISTS)) {
+        db.createObjectStore(LISTS, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(SESSION)) {
+        db.createObjectStore(SESSION);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/** Выполнить запрос в транзакции и дождаться её завершения */
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Все списки библиотеки, недавно изменённые — первыми */
+export async function loadWordLists(): Promise<WordList[]> {
+  const lists = await run<WordList[]>(LISTS, "readonly", (store) =>
+    store.getAll(),
+  );
+  return lists.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Сохранить список (новый или изменённый) */
+export async function saveWordList(list: WordList): Promise<void> {
+  await run(LISTS, "readwrite", (store) => store.put(list));
+}
+
+export async function deleteWordList(id: string): Promise<void> {
+  await run(LISTS, "readwrite", (store) => store.delete(id));
+}
+
+/** Новый список без головоломок, с уникальным id */
+export function createWordList(
+  name: string,
+  entries: WordEntry[],
+  tags: Pick<WordList, "subject" | "grade"> = { subject: "", grade: "" },
+): WordList {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    ...tags,
+    entries,
+    puzzles: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Копия списка со своими id у него и у его головоломок */
+export function duplicateWordList(list: WordList, name: string): WordList {
+  return {
+    ...createWordList(name, list.entries, list),
+    puzzles: list.puzzles.map((p) => ({ ...p, id: crypto.randomUUID() })),
+  };
+}
+
+/** Головоломка, готовая к сохранению в список */
+export function savedPuzzle(snapshot: PuzzleSnapshot): SavedPuzzle {
+  return { ...snapshot, id: crypto.randomUUID(), savedAt: Date.now() };
+}
+
+/** Подходит ли список под поисковую строку: по названию, меткам и словам */
+export function matchesSearch(list: WordList, query: string): boolean {
+  const needle = query.trim().toLocaleLowerCase();
+  if (!needle) return true;
+  return [
+    list.name,
+    list.subject,
+    list.grade,
+    ...list.entries.map((e) => e.word),
+  ].some((text) => text.toLocaleLowerCase().includes(needle));
+}
+
+/** Прошлый сеанс; null — сохранять было нечего */
+export async function loadSession(): Promise<Session | null> {
+  const session = await run<Session | undefined>(SESSION, "readonly", (store) =>
+    store.get(SESSION_KEY),
+  );
+  return session ?? null;
+}
+
+export async function saveSession(session: Session): Promise<void> {
+  await run(SESSION, "readwrite", (store) => store.put(session, SESSION_KEY));
+}
+
+export async function clearSession(): Promise<void> {
+  await run(SESSION, "readwrite", (store) => store.delete(SESSION_KEY));
+}
@@ -0,0 +1,379 @@
+import { saveAs } from "file-saver";
+import type {
+  AlphabetId,
+  Cell,
+  CrosswordResult,
+  FillDirection,
+  PuzzleKind,
+  UnplacedReason,
+} from "../engine/types";
+import { ALPHABET_PROFILES, LETTER_FOLDINGS } from "../engine/alphabet";
+import { FILL_DIRECTION_STEPS } from "../engine/fillword";
+import type { PuzzleSnapshot } from "./library";
+
+/** Версия формата, которую пишет эта сборка */
+export const PROJECT_VERSION = 1;
+
+/** Расширение файлов проекта */
+export const PROJECT_EXTENSION = ".crossexpo.json";
+
+/** Метка, по которой файл узнаётся как проект CrossExpo */
+const PROJECT_FORMAT = "crossexpo";
+
+/**
+ * Файл проекта: головоломка целиком, как в библиотеке, но в JSON. Сетка
+ * кроссворда (Map) хранится списком пар «ключ клетки — клетка».
+ */
+interface ProjectFile extends Omit<PuzzleSnapshot, "layouts"> {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  /** Когда файл сохранён, ISO 8601 */
+  savedAt: string;
+  layouts: (Omit<CrosswordResult, "grid"> & { grid: [string, Cell][] })[];
+}
+
+/** Файл не похож на проект или испорчен; текст ошибки — для пользователя */
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+type Json = Record<string, unknown>;
+
+/**
+ * Обновления формата: `MIGRATIONS[n]` превращает файл версии n в файл
+ * версии n + 1. Когда растёт PROJECT_VERSION, сюда добавляется шаг,
+ * и старые файлы открываются без потерь.
+ */
+const MIGRATIONS: Record<number, (data: Json) => Json> = {};
+
+const PUZZLE_KINDS: PuzzleKind[] = [
+  "free",
+  "keyword",
+  "chain",
+  "fillword",
+  "dense",
+  "scanword",
+];
+
+const UNPLACED_REASONS: UnplacedReason[] = [
+  "too-long",
+  "out-of-bounds",
+  "no-placement",
+  "not-needed",
+  "no-shared-letters",
+  "blocked",
+  "duplicate",
+  "too-short",
+  "detached",
+];
+
+const ALPHABET_IDS: AlphabetId[] = [
+  "auto",
+  ...(Object.keys(ALPHABET_PROFILES) as AlphabetId[]),
+];
+const FILL_DIRECTIONS = Object.keys(FILL_DIRECTION_STEPS) as FillDirection[];
+
+// ----- Проверка схемы -----
+// Каждая проверка называет путь к полю, чтобы ошибка говорила, что не так
+
+function fail(path: string, expected: string): never {
+  throw new ProjectFileError(`Поле «${path}»: ожидается ${expected}.`);
+}
+
+function object(value: unknown, path: string): Json {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    fail(path, "объект");
+  }
+  return value as Json;
+}
+
+function array(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(path, "список");
+  return value;
+}
+
+function number(value: unknown, path: string): void {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(path, "число");
+  }
+}
+
+function string(value: unknown, path: string): void {
+  if (typeof value !== "string") fail(path, "строка");
+}
+
+function boolean(value: unknown, path: string): void {
+  if (typeof value !== "boolean") fail(path, "«true» или «false»");
+}
+
+function oneOf(value: unknown, options: readonly string[], path: string): void {
+  if (!options.includes(value as string)) {
+    fail(path, `одно из: ${options.join(", ")}`);
+  }
+}
+
+/** Проверить поля-строки и поля-числа объекта по их именам */
+function fields(
+  item: Json,
+  path: string,
+  strings: readonly string[],
+  numbers: readonly string[] = [],
+): void {
+  for (const field of strings) string(item[field], `${path}.${field}`);
+  for (const field of numbers) number(item[field], `${path}.${field}`);
+}
+
+function checkEntries(value: unknown, path: string): void {
+  array(value, path).forEach((e, i) => {
+    fields(object(e, `${path}[${i}]`), `${path}[${i}]`, ["word", "clue"]);
+  });
+}
+
+/** Клетки слова филворда или цепочки чайнворда */
+function checkPoints(value: unknown, path: string): void {
+  array(value, path).forEach((p, i) => {
+    fields(object(p, `${path}[${i}]`), `${path}[${i}]`, [], ["x", "y"]);
+  });
+}
+
+function checkBreaks(value: unknown, path: string): void {
+  if (value === undefined) return;
+  array(value, path).forEach((b, i) => {
+    const at = `${path}[${i}]`;
+    const wordBreak = object(b, at);
+    number(wordBreak.at, `${at}.at`);
+    oneOf(wordBreak.kind, ["space", "hyphen"], `${at}.kind`);
+  });
+}
+
+/** Невошедшие слова: общие поля кроссворда, чайнворда и филворда */
+function checkUnplaced(item: Json, path: string): void {
+  array(item.unplacedWords, `${path}.unplacedWords`).forEach((w, i) =>
+    string(w, `${path}.unplacedWords[${i}]`),
+  );
+  array(item.unplacedDetails, `${path}.unplacedDetails`).forEach((u, i) => {
+    const at = `${path}.unplacedDetails[${i}]`;
+    const unplaced = object(u, at);
+    string(unplaced.word, `${at}.word`);
+    oneOf(unplaced.reason, UNPLACED_REASONS, `${at}.reason`);
+  });
+  number(item.seed, `${path}.seed`);
+  object(item.search, `${path}.search`);
+}
+
+function checkLayout(value: unknown, path: string): void {
+  const layout = object(value, path);
+  array(layout.words, `${path}.words`).forEach((w, i) => {
+    const at = `${path}.words[${i}]`;
+    const word = object(w, at);
+    fields(word, at, ["word", "label", "clue"], ["x", "y", "number"]);
+    oneOf(word.direction, ["across", "down"], `${at}.direction`);
+    checkBreaks(word.breaks, `${at}.breaks`);
+  });
+  array(layout.grid, `${path}.grid`).forEach((pair, i) => {
+    const at = `${path}.grid[${i}]`;
+    const [k, c] = array(pair, at);
+    if (typeof k !== "string" || !/^-?\d+,-?\d+$/.test(k)) {
+      fail(`${at}[0]`, "ключ клетки «x,y»");
+    }
+    string(object(c, `${at}[1]`).letter, `${at}[1].letter`);
+  });
+  fields(
+    object(layout.bounds, `${path}.bounds`),
+    `${path}.bounds`,
+    [],
+    ["minX", "minY", "maxX", "maxY", "width", "height"],
+  );
+  object(layout.metrics, `${path}.metrics`);
+  checkUnplaced(layout, path);
+}
+
+function checkChain(value: unknown, path: string): void {
+  const chain = object(value, path);
+  array(chain.words, `${path}.words`).forEach((w, i) => {
+    const at = `${path}.words[${i}]`;
+    fields(
+      object(w, at),
+      at,
+      ["word", "label", "clue"],
+      ["number", "start", "overlap"],
+    );
+  });
+  fields(chain, path, ["letters"], ["width", "height"]);
+  oneOf(chain.shape, ["snake", "spiral"], `${path}.shape`);
+  checkPoints(chain.path, `${path}.path`);
+  checkUnplaced(chain, path);
+}
+
+function checkFillword(value: unknown, path: string): void {
+  const fillword = object(value, path);
+  oneOf(fillword.mode, ["straight", "snake"], `${path}.mode`);
+  fields(fillword, path, [], ["width", "height"]);
+  array(fillword.letters, `${path}.letters`).forEach((row, y) =>
+    array(row, `${path}.letters[${y}]`).forEach((letter, x) =>
+      string(letter, `${path}.letters[${y}][${x}]`),
+    ),
+  );
+  array(fillword.words, `${path}.words`).forEach((w, i) => {
+    const at = `${path}.words[${i}]`;
+    const word = object(w, at);
+    fields(word, at, ["word", "label", "clue"]);
+    checkPoints(word.cells, `${at}.cells`);
+  });
+  checkUnplaced(fillword, path);
+}
+
+function checkAlphabet(value: unknown, path: string): void {
+  const alphabet = object(value, path);
+  oneOf(alphabet.profile, ALPHABET_IDS, `${path}.profile`);
+  array(alphabet.foldings, `${path}.foldings`).forEach((f, i) =>
+    oneOf(f, Object.keys(LETTER_FOLDINGS), `${path}.foldings[${i}]`),
+  );
+}
+
+/** Настройки раскладки: все поля необязательны, но если есть — верного вида */
+function checkSettings(value: unknown, path: string): void {
+  const settings = object(value, path);
+  for (const field of [
+    "seed",
+    "maxAttempts",
+    "timeBudgetMs",
+    "maxWidth",
+    "maxHeight",
+    "alternatives",
+  ]) {
+    if (settings[field] !== undefined) {
+      number(settings[field], `${path}.${field}`);
+    }
+  }
+  if (settings.mode !== undefined) {
+    oneOf(settings.mode, ["greedy", "backtrack"], `${path}.mode`);
+  }
+  if (settings.objectives !== undefined) {
+    fields(
+      object(settings.objectives, `${path}.objectives`),
+      `${path}.objectives`,
+      [],
+      ["compactness", "aspectRatio", "targetAspect", "density", "balance"],
+    );
+  }
+  if (settings.mask !== undefined) {
+    const mask = object(settings.mask, `${path}.mask`);
+    oneOf(
+      mask.shape,
+      ["heart", "star", "tree", "custom"],
+      `${path}.mask.shape`,
+    );
+    fields(mask, `${path}.mask`, [], ["width", "height"]);
+    array(mask.cells, `${path}.mask.cells`).forEach((k, i) =>
+      string(k, `${path}.mask.cells[${i}]`),
+    );
+  }
+  if (settings.alphabet !== undefined) {
+    checkAlphabet(settings.alphabet, `${path}.alphabet`);
+  }
+}
+
+function checkPuzzle(value: unknown, path: string): void {
+  const puzzle = object(value, path);
+  oneOf(puzzle.kind, PUZZLE_KINDS, `${path}.kind`);
+  fields(puzzle, path, ["keyword"], ["chainOverlap"]);
+  oneOf(puzzle.chainShape, ["snake", "spiral"], `${path}.chainShape`);
+  oneOf(puzzle.fillMode, ["straight", "snake"], `${path}.fillMode`);
+  array(puzzle.fillDirections, `${path}.fillDirections`).forEach((d, i) =>
+    oneOf(d, FILL_DIRECTIONS, `${path}.fillDirections[${i}]`),
+  );
+  const dense = object(puzzle.dense, `${path}.dense`);
+  fields(dense, `${path}.dense`, ["template"], ["width", "height"]);
+  boolean(dense.symmetric, `${path}.dense.symmetric`);
+  if (puzzle.dictionary !== null) {
+    const dictionary = object(puzzle.dictionary, `${path}.dictionary`);
+    string(dictionary.name, `${path}.dictionary.name`);
+    array(dictionary.words, `${path}.dictionary.words`).forEach((w, i) =>
+      string(w, `${path}.dictionary.words[${i}]`),
+    );
+  }
+  checkAlphabet(puzzle.alphabet, `${path}.alphabet`);
+}
+
+/** Проверить файл текущей версии; после неё данные можно считать проектом */
+function checkProject(data: Json): asserts data is Json & ProjectFile {
+  checkEntries(data.entries, "entries");
+  const layouts = array(data.layouts, "layouts");
+  layouts.forEach((l, i) => checkLayout(l, `layouts[${i}]`));
+  number(data.selected, "selected");
+  if ((data.selected as number) >= layouts.length) {
+    fail("selected", `номер раскладки меньше ${layouts.length}`);
+  }
+  if (data.chain !== null) checkChain(data.chain, "chain");
+  if (data.fillword !== null) checkFillword(data.fillword, "fillword");
+  checkSettings(data.settings, "settings");
+  checkPuzzle(data.puzzle, "puzzle");
+}
+
+/** Проект в JSON для сохранения в файл */
+export function writeProject(snapshot: PuzzleSnapshot): string {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    ...snapshot,
+    layouts: snapshot.layouts.map((l) => ({ ...l, grid: [...l.grid] })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Прочитать проект: разобрать JSON, обновить старую версию формата и
+ * проверить схему. Бросает ProjectFileError с понятным текстом.
+ */
+export function readProject(text: string): PuzzleSnapshot {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("Файл повреждён: это не JSON.");
+  }
+  let data = object(parsed, "(файл)");
+  if (data.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError("Это не проект CrossExpo.");
+  }
+  const version = data.version;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    fail("version", "целое число");
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(
+      `Проект сохранён более новой версией CrossExpo (формат ${version}). Обновите страницу.`,
+    );
+  }
+  for (let v = version; v < PROJECT_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) {
+      throw new ProjectFileError(`Формат ${v} больше не поддерживается.`);
+    }
+    data = migrate(data);
+  }
+
+  checkProject(data);
+  return {
+    entries: data.entries,
+    layouts: data.layouts.map((l) => ({ ...l, grid: new Map(l.grid) })),
+    selected: data.selected,
+    chain: data.chain,
+    fillword: data.fillword,
+    settings: data.settings,
+    puzzle: data.puzzle,
+  };
+}
+
+/** Сохранить проект в файл `<name>.crossexpo.json` */
+export function saveProject(snapshot: PuzzleSnapshot, name: string): void {
+  const blob = new Blob([writeProject(snapshot)], {
+    type: "application/json;charset=utf-8",
+  });
+  saveAs(blob, `${name}${PROJECT_EXTENSION}`);
+}
@@ -0,0 +1,22 @@
+import type { UnplacedWord } from "../engine/types";
+
+/** «К», «К или Т», «К, О или Т» */
+const joinLetters = (letters: string[]): string =>
+  letters.length > 1
+    ? `${letters.slice(0, -1).join(", ")} или ${letters[letters.length - 1]}`
+    : letters.join("");
+
+/**
+ * Подсказка, как помочь слову попасть в сетку: какое слово добавить или
+ * какую запись убрать. null — подсказать нечего.
+ */
+export function unplacedHint(u: UnplacedWord): string | null {
+  if (u.reason === "duplicate" && u.duplicateOf) {
+    return `Повторяет «${u.duplicateOf}» — уберите одну из записей.`;
+  }
+  if (u.suggestLetters && u.suggestLetters.length > 0) {
+    const plural = u.suggestLetters.length > 1 ? "одной из букв" : "буквой";
+    return `Добавьте слово с ${plural} ${joinLetters(u.suggestLetters)}.`;
+  }
+  return null;
+}
@@ -0,0 +1,154 @@
+import { saveAs } from "file-saver";
+import type { WordEntry } from "../engine/types";
+
+/** Кодировки, в которых встречаются таблицы со словами */
+export type TableEncoding = "utf-8" | "windows-1251";
+
+/** Разделитель столбцов: запятая и точка с запятой — CSV, табуляция — TSV */
+export type TableDelimiter = "," | ";" | "\t";
+
+/** Как читать столбцы таблицы */
+export interface TableMapping {
+  /** Номер столбца со словами (с нуля) */
+  wordColumn: number;
+  /** Номер столбца с подсказками; null — подсказок в таблице нет */
+  clueColumn: number | null;
+  /** Первая строка — заголовки, а не слово */
+  header: boolean;
+}
+
+/** Расширения и MIME-типы, которые принимает импорт */
+export const TABLE_FILE_ACCEPT =
+  ".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain";
+
+/**
+ * Угадать разделитель по первым строкам: табуляция (так копируют Excel и
+ * Google Таблицы), иначе точка с запятой (русский Excel) или запятая.
+ */
+export function detectDelimiter(text: string): TableDelimiter {
+  const sample = text.split(/\r?\n/, 5).join("\n");
+  if (sample.includes("\t")) return "\t";
+  const count = (c: string) => sample.split(c).length - 1;
+  return count(";") > count(",") ? ";" : ",";
+}
+
+/**
+ * Разобрать CSV/TSV в строки ячеек. Поля в кавычках могут содержать
+ * разделитель, перевод строки и удвоенные кавычки. Пустые строки пропускаются.
+ */
+export function parseDelimited(
+  text: string,
+  delimiter: TableDelimiter,
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+/** Прочитать байты файла в заданной кодировке (метка BOM отбрасывается) */
+export function decodeTable(
+  bytes: ArrayBuffer,
+  encoding: TableEncoding,
+): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+/**
+ * Угадать кодировку: файл, который не читается как UTF-8, скорее всего
+ * сохранён русским Excel в Windows-1251.
+ */
+export function detectEncoding(bytes: ArrayBuffer): TableEncoding {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return "utf-8";
+  } catch {
+    return "windows-1251";
+  }
+}
+
+/** Записи из строк таблицы; строки без слова пропускаются */
+export function rowsToEntries(
+  rows: string[][],
+  mapping: TableMapping,
+): WordEntry[] {
+  return rows
+    .slice(mapping.header ? 1 : 0)
+    .map((row) => ({
+      word: (row[mapping.wordColumn] ?? "").trim(),
+      clue:
+        mapping.clueColumn === null
+          ? ""
+          : (row[mapping.clueColumn] ?? "").trim(),
+    }))
+    .filter((e) => e.word.length > 0);
+}
+
+/** Взять поле в кавычки, если без них таблица прочитается неверно */
+function quoteField(value: string, delimiter: TableDelimiter): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/** Записи в CSV/TSV с заголовками «Слово» и «Подсказка» */
+export function entriesToDelimited(
+  entries: WordEntry[],
+  delimiter: TableDelimiter,
+): string {
+  return [["Слово", "Подсказка"], ...entries.map((e) => [e.word, e.clue])]
+    .map((row) =>
+      row.map((cell) => quoteField(cell.trim(), delimiter)).join(delimiter),
+    )
+    .join("\r\n");
+}
+
+/**
+ * Сохранить список слов таблицей. CSV пишется через точку с запятой и с
+ * меткой BOM — так его без вопросов открывает русский Excel.
+ */
+export function exportWordTable(
+  entries: WordEntry[],
+  format: "csv" | "tsv",
+  filename: string = `слова.${format}`,
+): void {
+  const delimiter = format === "csv" ? ";" : "\t";
+  const type = format === "csv" ? "text/csv" : "text/tab-separated-values";
+  const blob = new Blob(["\uFEFF", entriesToDelimited(entries, delimiter)], {
+    type: `${type};charset=utf-8`,
+  });
+  saveAs(blob, filename);
+}